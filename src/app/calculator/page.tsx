@@ -6,12 +6,18 @@ import SalaryInput from '@/components/input/SalaryInput';
 import BenefitsInput from '@/components/input/BenefitsInput';
 import EquityInput from '@/components/input/EquityInput';
 import PerksInput from '@/components/input/PerksInput';
+import TaxProfileInput from '@/components/input/TaxProfileInput';
 import TotalCompensationCard from '@/components/results/TotalCompensationCard';
 import BreakdownChart from '@/components/results/BreakdownChart';
 import CalculationBreakdown from '@/components/results/CalculationBreakdown';
+import PayrollSimulationTable from '@/components/results/PayrollSimulationTable';
+import EmployerCostBreakdown from '@/components/results/EmployerCostBreakdown';
+import HouseholdView from '@/components/results/HouseholdView';
 import ExportPanel from '@/components/export/ExportPanel';
 import PackageComparison from '@/components/comparison/PackageComparison';
 import { useCompensationCalculation } from '@/hooks/useCompensationCalculation';
+import { useCompensation } from '@/contexts/CompensationContext';
+import { SUPPORTED_TAX_YEARS } from '@/constants/tax-rules';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -19,6 +25,7 @@ import { Badge } from '@/components/ui/badge';
 
 export default function CalculatorPage() {
   const { isCalculating, performFullCalculation } = useCompensationCalculation();
+  const { state, updateTaxYear } = useCompensation();
 
   return (
     <AppLayout>
@@ -33,7 +40,16 @@ export default function CalculatorPage() {
               Calculate your total compensation including salary, benefits, equity, and perks with Israeli tax considerations
             </p>
             <div className="flex justify-center gap-2 mt-4">
-              <Badge variant="secondary">2024 Tax Rates</Badge>
+              <select
+                value={state.currentPackage.taxYear}
+                onChange={(e) => updateTaxYear(Number(e.target.value))}
+                className="rounded-md border border-transparent bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground focus:ring-1 focus:ring-blue-500"
+                aria-label="Tax year"
+              >
+                {SUPPORTED_TAX_YEARS.map((year) => (
+                  <option key={year} value={year}>{year} Tax Rates</option>
+                ))}
+              </select>
               <Badge variant="secondary">Real-time USD/ILS</Badge>
               <Badge variant="secondary">Israeli Benefits</Badge>
             </div>
@@ -51,11 +67,12 @@ export default function CalculatorPage() {
                 </CardHeader>
                 <CardContent>
                   <Tabs defaultValue="salary" className="w-full">
-                    <TabsList className="grid w-full grid-cols-4">
+                    <TabsList className="grid w-full grid-cols-5">
                       <TabsTrigger value="salary">💰 Salary</TabsTrigger>
                       <TabsTrigger value="benefits">📈 Benefits</TabsTrigger>
                       <TabsTrigger value="equity">💎 Equity</TabsTrigger>
                       <TabsTrigger value="perks">🎁 Perks</TabsTrigger>
+                      <TabsTrigger value="tax-profile">🧾 Tax</TabsTrigger>
                     </TabsList>
                     
                     <TabsContent value="salary" className="mt-6">
@@ -73,6 +90,10 @@ export default function CalculatorPage() {
                     <TabsContent value="perks" className="mt-6">
                       <PerksInput />
                     </TabsContent>
+                    
+                    <TabsContent value="tax-profile" className="mt-6">
+                      <TaxProfileInput />
+                    </TabsContent>
                   </Tabs>
                 </CardContent>
               </Card>
@@ -100,6 +121,9 @@ export default function CalculatorPage() {
                   <p className="text-sm text-green-700 mt-3">
                     Get detailed breakdown with Israeli tax calculations
                   </p>
+                  {state.error.hasError && (
+                    <p className="text-sm text-red-600 mt-2">{state.error.message}</p>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -109,9 +133,12 @@ export default function CalculatorPage() {
               <TotalCompensationCard />
               
               <Tabs defaultValue="chart" className="w-full">
-                <TabsList className="grid w-full grid-cols-4">
+                <TabsList className="grid w-full grid-cols-7">
                   <TabsTrigger value="chart">📊 Chart</TabsTrigger>
                   <TabsTrigger value="breakdown">🧮 Breakdown</TabsTrigger>
+                  <TabsTrigger value="employer">🏢 Employer</TabsTrigger>
+                  <TabsTrigger value="payroll">📅 Payroll</TabsTrigger>
+                  <TabsTrigger value="household">🏠 Household</TabsTrigger>
                   <TabsTrigger value="export">📤 Export</TabsTrigger>
                   <TabsTrigger value="compare">⚖️ Compare</TabsTrigger>
                 </TabsList>
@@ -123,6 +150,18 @@ export default function CalculatorPage() {
                 <TabsContent value="breakdown" className="mt-6">
                   <CalculationBreakdown />
                 </TabsContent>
+
+                <TabsContent value="employer" className="mt-6">
+                  <EmployerCostBreakdown />
+                </TabsContent>
+
+                <TabsContent value="payroll" className="mt-6">
+                  <PayrollSimulationTable />
+                </TabsContent>
+                
+                <TabsContent value="household" className="mt-6">
+                  <HouseholdView />
+                </TabsContent>
                 
                 <TabsContent value="export" className="mt-6">
                   <ExportPanel />
@@ -141,13 +180,13 @@ export default function CalculatorPage() {
               <CardContent className="p-6">
                 <h3 className="text-lg font-semibold text-blue-900 mb-2">💡 About This Calculator</h3>
                 <p className="text-blue-800 mb-4">
-                  This calculator uses 2024 Israeli tax rates and regulations. It includes income tax, 
+                  This calculator uses Israeli tax rates and regulations for {SUPPORTED_TAX_YEARS.join(', ')}. It includes income tax, 
                   Bituach Leumi, pension contributions, and all standard Israeli workplace benefits.
                 </p>
                 <div className="flex justify-center gap-4 text-sm text-blue-700">
                   <div className="flex items-center gap-1">
                     <span>✓</span>
-                    <span>2024 Tax Brackets</span>
+                    <span>{state.currentPackage.taxYear} Tax Brackets</span>
                   </div>
                   <div className="flex items-center gap-1">
                     <span>✓</span>
@@ -18,7 +18,7 @@ export const metadata: Metadata = {
     default: "Israeli Tech Compensation Calculator | Calculate Your Total Compensation",
     template: "%s | Israeli Tech Compensation Calculator"
   },
-  description: "Calculate your total compensation in the Israeli tech industry. Get accurate breakdown including salary, benefits, equity, and perks with 2024 Israeli tax calculations, real-time USD/ILS conversion, and market benchmarks.",
+  description: "Calculate your total compensation in the Israeli tech industry. Get accurate breakdown including salary, benefits, equity, and perks with up-to-date Israeli tax calculations, real-time USD/ILS conversion, and market benchmarks.",
   keywords: [
     "Israeli tech salary",
     "compensation calculator",
@@ -58,7 +58,7 @@ export const metadata: Metadata = {
     url: "https://israeli-tech-compensation.vercel.app",
     siteName: "Israeli Tech Compensation Calculator",
     title: "Israeli Tech Compensation Calculator | Calculate Your Total Compensation",
-    description: "Calculate your total compensation in the Israeli tech industry. Accurate breakdown with 2024 tax calculations, real-time exchange rates, and market benchmarks.",
+    description: "Calculate your total compensation in the Israeli tech industry. Accurate breakdown with multi-year Israeli tax calculations, real-time exchange rates, and market benchmarks.",
     images: [
       {
         url: "/og-image.png",
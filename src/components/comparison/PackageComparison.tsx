@@ -175,6 +175,24 @@ export default function PackageComparison() {
               ))}
             </tr>
 
+            {/* Tax Year */}
+            <tr>
+              <td className="py-3 px-2 font-medium">Tax Year</td>
+              {comparisonPackages.map((comp, index) => (
+                <td key={index} className="py-3 px-2 text-center">{comp.package.taxYear}</td>
+              ))}
+            </tr>
+
+            {/* Employment Type */}
+            <tr>
+              <td className="py-3 px-2 font-medium">Employment</td>
+              {comparisonPackages.map((comp, index) => (
+                <td key={index} className="py-3 px-2 text-center">
+                  {comp.package.employmentType === 'selfEmployed' ? `Contractor (osek ${comp.package.selfEmployed.dealerType})` : 'Employee'}
+                </td>
+              ))}
+            </tr>
+
             {/* Total Compensation */}
             <tr className="bg-blue-50">
               <td className="py-3 px-2 font-medium">Total Annual Compensation</td>
@@ -199,9 +217,7 @@ export default function PackageComparison() {
             <tr>
               <td className="py-3 px-2 font-medium">Base Salary (Annual)</td>
               {comparisonPackages.map((comp, index) => {
-                const annualSalary = comp.package.salary.frequency === 'monthly' 
-                  ? comp.package.salary.baseSalary * 12 
-                  : comp.package.salary.baseSalary;
+                const annualSalary = CompensationCalculator.getMonthlyBaseSalary(comp.package.salary) * 12;
                 return (
                   <td key={index} className="py-3 px-2 text-center">
                     {formatCurrency(annualSalary)} {comp.package.salary.currency !== 'ILS' && `(${comp.package.salary.currency})`}
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useCompensation } from '@/contexts/CompensationContext';
+import { CompensationCalculation } from '@/types';
 import { useCompensationCalculation } from '@/hooks/useCompensationCalculation';
 import { 
   exportToPDF, 
@@ -16,10 +17,18 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 
 export default function ExportPanel() {
-  const { state, dispatch } = useCompensation();
+  const { state, dispatch, calculateCompensation } = useCompensation();
   const { calculation } = useCompensationCalculation();
   const [isExporting, setIsExporting] = useState<string | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [recalculateImport, setRecalculateImport] = useState(false);
+
+  // Recalculate once the imported package is in state - a stored result may predate fields the results tabs rely on
+  useEffect(() => {
+    if (!recalculateImport) return;
+    setRecalculateImport(false);
+    calculateCompensation();
+  }, [recalculateImport, calculateCompensation]);
 
   const handleVisualPDFExport = async () => {
     setIsExporting('visual-pdf');
@@ -79,17 +88,27 @@ export default function ExportPanel() {
 
     setImportError(null);
     try {
-      const { package: importedPackage, calculation: importedCalculation } = await importFromJSON(file);
+      const { package: importedPackage } = await importFromJSON(file);
       
       // Update the current package
       dispatch({ type: 'UPDATE_SALARY', payload: importedPackage.salary });
       dispatch({ type: 'UPDATE_BENEFITS', payload: importedPackage.benefits });
       dispatch({ type: 'UPDATE_EQUITY', payload: importedPackage.equity });
       dispatch({ type: 'UPDATE_PERKS', payload: importedPackage.perks });
-      
-      if (importedCalculation) {
-        dispatch({ type: 'SET_CALCULATION', payload: importedCalculation });
+      if (importedPackage.taxProfile) {
+        dispatch({ type: 'UPDATE_TAX_PROFILE', payload: importedPackage.taxProfile });
+      }
+      if (importedPackage.taxYear) {
+        dispatch({ type: 'SET_TAX_YEAR', payload: importedPackage.taxYear });
       }
+      dispatch({ type: 'SET_EMPLOYMENT_TYPE', payload: importedPackage.employmentType || 'employee' });
+      if (importedPackage.selfEmployed) {
+        dispatch({ type: 'UPDATE_SELF_EMPLOYED', payload: importedPackage.selfEmployed });
+      }
+      dispatch({ type: 'SET_HOUSEHOLD', payload: importedPackage.household });
+      
+      dispatch({ type: 'SET_CALCULATION', payload: null as unknown as CompensationCalculation });
+      setRecalculateImport(true);
       
       alert('Compensation package imported successfully!');
     } catch (error) {
@@ -5,7 +5,7 @@ import { useCompensation } from '@/contexts/CompensationContext';
 
 export default function BenefitsInput() {
   const { state, dispatch } = useCompensation();
-  const { benefits } = state.currentPackage;
+  const { benefits, employmentType } = state.currentPackage;
 
   const handleBenefitsChange = (field: keyof typeof benefits, value: string | number | boolean | object | undefined) => {
     dispatch({
@@ -18,6 +18,14 @@ export default function BenefitsInput() {
     <div className="bg-white rounded-lg shadow-sm border p-6">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">📈 Benefits & Insurance</h3>
       
+      {employmentType === 'selfEmployed' && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+          <p className="text-sm text-amber-800">
+            💡 Contractor mode: employer benefits are not part of the calculation. Set your own pension and study fund deposits in the salary section.
+          </p>
+        </div>
+      )}
+      
       <div className="space-y-6">
         {/* Pension Fund */}
         <div className="border-b border-gray-200 pb-6">
@@ -79,13 +87,81 @@ export default function BenefitsInput() {
                   />
                 </div>
               </div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={!!benefits.pensionFund.onFullSalary}
+                  onChange={(e) => handleBenefitsChange('pensionFund', {
+                    ...benefits.pensionFund,
+                    onFullSalary: e.target.checked
+                  })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">Employer contributes on full salary (above the pension ceiling)</span>
+              </label>
               <p className="text-sm text-blue-700">
                 💡 Standard rates: Employee 6%, Employer 6.5%. Some companies offer enhanced rates.
+                Employer contributions above 7.5% or above the ceiling are taxed as imputed income.
               </p>
             </div>
           )}
         </div>
 
+        {/* Severance */}
+        <div className="border-b border-gray-200 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Severance (Pitzuim)
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={benefits.severance.section14}
+                onChange={(e) => handleBenefitsChange('severance', {
+                  ...benefits.severance,
+                  section14: e.target.checked
+                })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-600">Section 14 applies</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Employer Deposit</label>
+              <select
+                value={benefits.severance.employerContribution}
+                onChange={(e) => handleBenefitsChange('severance', {
+                  ...benefits.severance,
+                  employerContribution: Number(e.target.value)
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={8.33}>8.33% (full)</option>
+                <option value={6}>6% (partial)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Expected Tenure (years)</label>
+              <input
+                type="number"
+                min="1"
+                max="40"
+                value={benefits.severance.expectedTenureYears}
+                onChange={(e) => handleBenefitsChange('severance', {
+                  ...benefits.severance,
+                  expectedTenureYears: Number(e.target.value)
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            💡 Under Section 14 the deposits are yours when you resign. Without it, severance is only paid on dismissal.
+          </p>
+        </div>
+
         {/* Study Fund */}
         <div className="border-b border-gray-200 pb-6">
           <div className="flex items-center justify-between mb-3">
@@ -146,8 +222,21 @@ export default function BenefitsInput() {
                   />
                 </div>
               </div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={!!benefits.studyFund.onFullSalary}
+                  onChange={(e) => handleBenefitsChange('studyFund', {
+                    ...benefits.studyFund,
+                    onFullSalary: e.target.checked
+                  })}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                <span className="text-sm text-gray-700">Employer contributes on full salary (above the study fund ceiling)</span>
+              </label>
               <p className="text-sm text-green-700">
                 💡 Standard rates: Employee 2.5%, Employer 7.5%. Available after 6 years or for approved education.
+                Contributions above the ceiling are taxed as imputed income.
               </p>
             </div>
           )}
@@ -0,0 +1,216 @@
+'use client';
+
+import React from 'react';
+import { CapTable, PreferredRound } from '@/types';
+import { Button } from '@/components/ui/button';
+import { ExitWaterfall } from '@/utils/exit-waterfall';
+
+interface CapTableInputProps {
+  capTable?: CapTable;
+  onChange: (capTable: CapTable | undefined) => void;
+}
+
+const createRound = (index: number): PreferredRound => ({
+  id: `round-${Date.now()}`,
+  name: `Series ${String.fromCharCode(65 + index)}`,
+  shares: 2000000,
+  investment: 20000000,
+  liquidationMultiple: 1,
+  participating: false,
+  seniority: index + 1
+});
+
+const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+export default function CapTableInput({ capTable, onChange }: CapTableInputProps) {
+  const updateCapTable = (updates: Partial<CapTable>) => {
+    if (capTable) onChange({ ...capTable, ...updates });
+  };
+
+  const updateRound = (roundId: string, updates: Partial<PreferredRound>) => {
+    if (!capTable) return;
+    updateCapTable({
+      preferredRounds: capTable.preferredRounds.map(round => round.id === roundId ? { ...round, ...updates } : round)
+    });
+  };
+
+  const waterfall = capTable && ExitWaterfall.calculate(capTable);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Cap Table &amp; Exit Waterfall
+        </label>
+        <input
+          type="checkbox"
+          checked={!!capTable}
+          onChange={(e) => onChange(e.target.checked
+            ? { commonShares: 10000000, exitValue: 200000000, preferredRounds: [createRound(0)] }
+            : undefined)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+      </div>
+
+      {capTable && waterfall && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Exit Value (USD)</label>
+              <input
+                type="number"
+                min="0"
+                step="1000000"
+                value={capTable.exitValue}
+                onChange={(e) => updateCapTable({ exitValue: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Common Shares (incl. Option Pool)</label>
+              <input
+                type="number"
+                min="0"
+                step="100000"
+                value={capTable.commonShares}
+                onChange={(e) => updateCapTable({ commonShares: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-gray-600">
+                <th className="text-left py-1 px-1">Round</th>
+                <th className="text-right py-1 px-1">Shares</th>
+                <th className="text-right py-1 px-1">Invested (USD)</th>
+                <th className="text-right py-1 px-1">Multiple</th>
+                <th className="text-center py-1 px-1">Participating</th>
+                <th className="text-right py-1 px-1">Cap (x)</th>
+                <th className="text-right py-1 px-1">Seniority</th>
+                <th className="py-1 px-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {capTable.preferredRounds.map((round) => (
+                <tr key={round.id} className="border-b">
+                  <td className="py-1 px-1">
+                    <input
+                      type="text"
+                      value={round.name}
+                      onChange={(e) => updateRound(round.id, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="100000"
+                      value={round.shares}
+                      onChange={(e) => updateRound(round.id, { shares: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1000000"
+                      value={round.investment}
+                      onChange={(e) => updateRound(round.id, { investment: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={round.liquidationMultiple}
+                      onChange={(e) => updateRound(round.id, { liquidationMultiple: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={round.participating}
+                      onChange={(e) => updateRound(round.id, { participating: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={round.participationCap ?? ''}
+                      placeholder="None"
+                      disabled={!round.participating}
+                      onChange={(e) => updateRound(round.id, {
+                        participationCap: e.target.value === '' ? undefined : Number(e.target.value)
+                      })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={round.seniority}
+                      onChange={(e) => updateRound(round.id, { seniority: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1 text-right">
+                    <button
+                      onClick={() => updateCapTable({
+                        preferredRounds: capTable.preferredRounds.filter(r => r.id !== round.id)
+                      })}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateCapTable({
+              preferredRounds: [...capTable.preferredRounds, createRound(capTable.preferredRounds.length)]
+            })}
+          >
+            + Add Preferred Round
+          </Button>
+
+          {/* Waterfall Result */}
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm space-y-1">
+            {waterfall.payouts.map((payout) => (
+              <div key={payout.roundId} className="flex justify-between">
+                <span className="text-blue-800">
+                  {payout.name} {payout.converted ? '(converts to common)' : '(takes preference)'}
+                </span>
+                <span className="font-medium">${Math.round(payout.total).toLocaleString()}</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-blue-800">Common Shares</span>
+              <span className="font-medium">${Math.round(waterfall.commonProceeds).toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between border-t border-blue-200 pt-1">
+              <span className="font-medium text-blue-900">Value per Common Share</span>
+              <span className="font-bold text-blue-900">${waterfall.commonPerShare.toFixed(2)}</span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
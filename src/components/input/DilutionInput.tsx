@@ -0,0 +1,227 @@
+'use client';
+
+import React from 'react';
+import { DilutionPlan, EquityGrant, FundingRound } from '@/types';
+import { Button } from '@/components/ui/button';
+import { DilutionProjector } from '@/utils/dilution-projector';
+import { EquityValuator } from '@/utils/equity-valuator';
+
+interface DilutionInputProps {
+  grant: EquityGrant;
+  onChange: (dilution: DilutionPlan | undefined) => void;
+}
+
+const createFundingRound = (index: number): FundingRound => ({
+  id: `funding-${Date.now()}`,
+  name: `Round ${index + 1}`,
+  monthsFromNow: 18 * (index + 1),
+  raiseAmount: 30000000,
+  preMoneyValuation: 120000000,
+  optionPoolTopUp: 5
+});
+
+// Shares outstanding today - from the cap table, else implied by the valuation and share price
+const getDefaultShares = (grant: EquityGrant): number => {
+  if (grant.capTable) {
+    return grant.capTable.commonShares + grant.capTable.preferredRounds.reduce((sum, round) => sum + round.shares, 0);
+  }
+  if (grant.companyValuation && grant.currentStockPrice) {
+    return Math.round(grant.companyValuation * 1000000 / grant.currentStockPrice);
+  }
+  return 10000000;
+};
+
+const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+export default function DilutionInput({ grant, onChange }: DilutionInputProps) {
+  const { dilution } = grant;
+
+  const updateDilution = (updates: Partial<DilutionPlan>) => {
+    if (dilution) onChange({ ...dilution, ...updates });
+  };
+
+  const updateRound = (roundId: string, updates: Partial<FundingRound>) => {
+    if (!dilution) return;
+    updateDilution({
+      rounds: dilution.rounds.map(round => round.id === roundId ? { ...round, ...updates } : round)
+    });
+  };
+
+  const projection = dilution && DilutionProjector.project(grant.amount, EquityValuator.getSharePrice(grant), dilution);
+
+  // Vested value by calendar year, with each vest priced at the latest round before it, and the ownership vested by the year's last vest
+  const valueByYear = EquityValuator.calculateVestingSchedule(grant).reduce((years, event) => {
+    const year = event.date.getFullYear();
+    years[year] = {
+      value: (years[year]?.value || 0) + event.estimatedValue,
+      ownership: event.ownership ?? years[year]?.ownership
+    };
+    return years;
+  }, {} as { [year: number]: { value: number; ownership?: number } });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Expected Dilution from Future Rounds
+        </label>
+        <input
+          type="checkbox"
+          checked={!!dilution}
+          onChange={(e) => onChange(e.target.checked
+            ? { fullyDilutedShares: getDefaultShares(grant), rounds: [createFundingRound(0)] }
+            : undefined)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+      </div>
+
+      {dilution && projection && (
+        <>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Fully Diluted Shares Today</label>
+            <input
+              type="number"
+              min="0"
+              step="100000"
+              value={dilution.fullyDilutedShares}
+              onChange={(e) => updateDilution({ fullyDilutedShares: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-gray-600">
+                <th className="text-left py-1 px-1">Round</th>
+                <th className="text-right py-1 px-1">Months From Now</th>
+                <th className="text-right py-1 px-1">Raise (USD)</th>
+                <th className="text-right py-1 px-1">Pre-Money (USD)</th>
+                <th className="text-right py-1 px-1">Pool Top-Up (%)</th>
+                <th className="py-1 px-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {dilution.rounds.map((round) => (
+                <tr key={round.id} className="border-b">
+                  <td className="py-1 px-1">
+                    <input
+                      type="text"
+                      value={round.name}
+                      onChange={(e) => updateRound(round.id, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={round.monthsFromNow}
+                      onChange={(e) => updateRound(round.id, { monthsFromNow: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1000000"
+                      value={round.raiseAmount}
+                      onChange={(e) => updateRound(round.id, { raiseAmount: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1000000"
+                      value={round.preMoneyValuation}
+                      onChange={(e) => updateRound(round.id, { preMoneyValuation: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      max="50"
+                      step="1"
+                      value={round.optionPoolTopUp}
+                      onChange={(e) => updateRound(round.id, { optionPoolTopUp: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1 text-right">
+                    <button
+                      onClick={() => updateDilution({ rounds: dilution.rounds.filter(r => r.id !== round.id) })}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateDilution({ rounds: [...dilution.rounds, createFundingRound(dilution.rounds.length)] })}
+          >
+            + Add Funding Round
+          </Button>
+
+          {/* Projection */}
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm">
+            <table className="w-full">
+              <thead>
+                <tr className="text-blue-800 text-xs">
+                  <th className="text-left py-1">When</th>
+                  <th className="text-left py-1">Round</th>
+                  <th className="text-right py-1">Ownership</th>
+                  <th className="text-right py-1">Share Price</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projection.map((point, index) => (
+                  <tr key={index}>
+                    <td className="py-1">{point.date.toLocaleDateString()}</td>
+                    <td className="py-1">{point.roundName}</td>
+                    <td className="py-1 text-right">{(point.ownership * 100).toFixed(3)}%</td>
+                    <td className="py-1 text-right font-medium">${point.sharePrice.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {Object.keys(valueByYear).length > 0 && (
+            <div className="text-sm">
+              <div className="font-medium text-gray-900 mb-1">Vesting Timeline</div>
+              <table className="w-full">
+                <thead>
+                  <tr className="text-gray-600 text-xs">
+                    <th className="text-left py-1">Year</th>
+                    <th className="text-right py-1">Vested Value</th>
+                    <th className="text-right py-1">Ownership Vested</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(valueByYear).map(([year, { value, ownership }]) => (
+                    <tr key={year}>
+                      <td className="py-1 text-gray-700">{year}</td>
+                      <td className="py-1 text-right font-medium">${Math.round(value).toLocaleString()}</td>
+                      <td className="py-1 text-right">{ownership !== undefined ? `${(ownership * 100).toFixed(3)}%` : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,19 +2,31 @@
 
 import React, { useState, useEffect } from 'react';
 import { useCompensation } from '@/contexts/CompensationContext';
-import { EquityGrant, VestingSchedule } from '@/types';
+import { useCompensationCalculation } from '@/hooks/useCompensationCalculation';
+import { EquityGrant, EquityTaxTrack, OptionPricingInputs, OptionPricingModel, VestingSchedule } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DatePicker } from '@/components/ui/date-picker';
 import { useAnalytics } from '@/utils/analytics';
+import { CompensationCalculator } from '@/utils/compensation-calculator';
+import { OptionPricer } from '@/utils/option-pricing';
+import { EquityValuator } from '@/utils/equity-valuator';
+import CapTableInput from './CapTableInput';
+import DilutionInput from './DilutionInput';
+import ExitScenariosInput from './ExitScenariosInput';
+import PriceSimulationInput from './PriceSimulationInput';
+import { DEFAULT_OPTION_PRICING, OPTION_PRICING_MODEL_LABELS } from '@/constants/israeli-tax';
 
 export default function EquityInput() {
   const { state, dispatch } = useCompensation();
   const { equity } = state.currentPackage;
+  const isSelfEmployed = state.currentPackage.employmentType === 'selfEmployed';
   const [selectedGrant, setSelectedGrant] = useState<string | null>(null);
   const { trackInteraction } = useAnalytics();
+  const { calculation, formatCurrency } = useCompensationCalculation();
+  const exitDistribution = calculation?.equityExitDistribution;
 
   const handleEquityChange = (updates: Partial<typeof equity>) => {
     dispatch({
@@ -39,7 +51,9 @@ export default function EquityInput() {
       strikePrice: type === 'ESPP' ? 15 : (type !== 'RSU' ? 0 : undefined), // For ESPP, represents discount %
       currentStockPrice: 0,
       companyValuation: 0,
-      companyStage: 'startup'
+      companyStage: 'startup',
+      taxTrack: 'section102-capital',
+      optionPricing: type === 'ISO' || type === 'NQSO' ? { ...DEFAULT_OPTION_PRICING } : undefined
     };
 
     handleEquityChange({
@@ -87,29 +101,37 @@ export default function EquityInput() {
     }
   };
 
+  const updateOptionPricing = (grantId: string, pricing: Partial<OptionPricingInputs>) => {
+    const grant = equity.grants.find(g => g.id === grantId);
+    if (grant) {
+      updateGrant(grantId, {
+        optionPricing: { ...DEFAULT_OPTION_PRICING, model: 'intrinsic', ...grant.optionPricing, ...pricing }
+      });
+    }
+  };
+
   const selectedGrantData = selectedGrant ? equity.grants.find(g => g.id === selectedGrant) : null;
 
   // Calculate total equity value for preview
   const totalEquityValue = equity.grants.reduce((total, grant) => {
-    if (!grant.currentStockPrice || grant.currentStockPrice <= 0) return total;
+    const sharePrice = EquityValuator.getSharePrice(grant);
+    if (sharePrice <= 0) return total;
     
     if (grant.type === 'RSU') {
-      return total + (grant.amount * grant.currentStockPrice);
+      return total + (grant.amount * sharePrice);
     } else if (grant.type === 'ESPP') {
       // For ESPP, estimate annual purchase based on salary deduction and discount
-      const annualSalary = state.currentPackage.salary.baseSalary * 
-        (state.currentPackage.salary.frequency === 'monthly' ? 12 : 1);
+      const annualSalary = CompensationCalculator.getMonthlyBaseSalary(state.currentPackage.salary) * 12;
       const monthlyDeduction = (annualSalary / 12) * (grant.amount / 100); // grant.amount is deduction %
       const annualDeduction = monthlyDeduction * 12;
       const discountRate = (grant.strikePrice || 15) / 100; // strikePrice stores discount %
-      const purchasePrice = grant.currentStockPrice * (1 - discountRate);
+      const purchasePrice = sharePrice * (1 - discountRate);
       const sharesPerYear = annualDeduction / purchasePrice;
-      const immediateGain = sharesPerYear * (grant.currentStockPrice - purchasePrice);
+      const immediateGain = sharesPerYear * (sharePrice - purchasePrice);
       return total + immediateGain;
     } else if (grant.strikePrice !== undefined) {
-      // For options, calculate intrinsic value
-      const intrinsicValue = Math.max(0, grant.currentStockPrice - grant.strikePrice);
-      return total + (grant.amount * intrinsicValue);
+      // For options, value by the grant's pricing model
+      return total + (grant.amount * OptionPricer.valuePerShare(sharePrice, grant.strikePrice, grant.optionPricing));
     }
     
     return total;
@@ -180,6 +202,14 @@ export default function EquityInput() {
               </span>
             </p>
           )}
+          {exitDistribution && (
+            <p className="text-sm text-gray-600 mt-1">
+              Exit outcomes in today&apos;s value:{' '}
+              <span className="font-medium">p10 {formatCurrency(exitDistribution.p10)}</span>{' · '}
+              <span className="font-medium">p50 {formatCurrency(exitDistribution.p50)}</span>{' · '}
+              <span className="font-medium">p90 {formatCurrency(exitDistribution.p90)}</span>
+            </p>
+          )}
         </div>
         <Badge variant="secondary" className="text-xs">
           {equity.grants.length} grant{equity.grants.length !== 1 ? 's' : ''}
@@ -240,8 +270,7 @@ export default function EquityInput() {
                 if (grant.type === 'ESPP') {
                   displayText = `${grant.amount}% deduction, ${grant.strikePrice || 15}% discount`;
                   if (grant.currentStockPrice) {
-                    const annualSalary = state.currentPackage.salary.baseSalary * 
-                      (state.currentPackage.salary.frequency === 'monthly' ? 12 : 1);
+                    const annualSalary = CompensationCalculator.getMonthlyBaseSalary(state.currentPackage.salary) * 12;
                     const monthlyDeduction = (annualSalary / 12) * (grant.amount / 100);
                     const annualDeduction = monthlyDeduction * 12;
                     const discountRate = (grant.strikePrice || 15) / 100;
@@ -251,11 +280,12 @@ export default function EquityInput() {
                   }
                 } else {
                   displayText = `${grant.amount.toLocaleString()} ${grant.type === 'RSU' ? 'units' : 'shares'}`;
-                  if (grant.currentStockPrice && grant.amount) {
+                  const sharePrice = EquityValuator.getSharePrice(grant);
+                  if (sharePrice && grant.amount) {
                     if (grant.type === 'RSU') {
-                      grantValue = grant.amount * grant.currentStockPrice;
+                      grantValue = grant.amount * sharePrice;
                     } else if (grant.strikePrice !== undefined) {
-                      grantValue = grant.amount * Math.max(0, grant.currentStockPrice - grant.strikePrice);
+                      grantValue = grant.amount * OptionPricer.valuePerShare(sharePrice, grant.strikePrice, grant.optionPricing);
                     }
                   }
                 }
@@ -410,8 +440,7 @@ export default function EquityInput() {
                       <h4 className="text-sm font-medium text-green-900 mb-3">💰 ESPP Value Calculation</h4>
                       <div className="space-y-2 text-sm">
                         {(() => {
-                          const annualSalary = state.currentPackage.salary.baseSalary * 
-                            (state.currentPackage.salary.frequency === 'monthly' ? 12 : 1);
+                          const annualSalary = CompensationCalculator.getMonthlyBaseSalary(state.currentPackage.salary) * 12;
                           const monthlyDeduction = (annualSalary / 12) * (selectedGrantData.amount / 100);
                           const annualDeduction = monthlyDeduction * 12;
                           const discountRate = (selectedGrantData.strikePrice || 15) / 100;
@@ -512,6 +541,90 @@ export default function EquityInput() {
                       </div>
                     )}
 
+                    {selectedGrantData.type !== 'RSU' && (
+                      <div className="md:col-span-2 border border-gray-200 rounded-lg p-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Pricing Model
+                        </label>
+                        <select
+                          value={selectedGrantData.optionPricing?.model || 'intrinsic'}
+                          onChange={(e) => updateOptionPricing(selectedGrantData.id, {
+                            model: e.target.value as OptionPricingModel
+                          })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {(Object.keys(OPTION_PRICING_MODEL_LABELS) as OptionPricingModel[]).map(model => (
+                            <option key={model} value={model}>{OPTION_PRICING_MODEL_LABELS[model]}</option>
+                          ))}
+                        </select>
+                        {selectedGrantData.optionPricing && selectedGrantData.optionPricing.model !== 'intrinsic' && (
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3">
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">
+                                Volatility (%)
+                              </label>
+                              <input
+                                type="number"
+                                min="1"
+                                step="5"
+                                value={selectedGrantData.optionPricing.volatility}
+                                onChange={(e) => updateOptionPricing(selectedGrantData.id, { volatility: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">
+                                Risk-Free Rate (%)
+                              </label>
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={selectedGrantData.optionPricing.riskFreeRate}
+                                onChange={(e) => updateOptionPricing(selectedGrantData.id, { riskFreeRate: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">
+                                Expected Term (Years)
+                              </label>
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.25"
+                                value={selectedGrantData.optionPricing.expectedTermYears}
+                                onChange={(e) => updateOptionPricing(selectedGrantData.id, { expectedTermYears: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">
+                                Dividend Yield (%)
+                              </label>
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={selectedGrantData.optionPricing.dividendYield}
+                                onChange={(e) => updateOptionPricing(selectedGrantData.id, { dividendYield: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                          </div>
+                        )}
+                        <p className="text-xs text-gray-500 mt-2">
+                          Value per option: ${OptionPricer.valuePerShare(
+                            EquityValuator.getSharePrice(selectedGrantData),
+                            selectedGrantData.strikePrice || 0,
+                            selectedGrantData.optionPricing
+                          ).toFixed(2)}
+                          {(!selectedGrantData.optionPricing || selectedGrantData.optionPricing.model === 'intrinsic') &&
+                            ' - intrinsic value ignores time value, so at-the-money options are worth nothing'}
+                        </p>
+                      </div>
+                    )}
+
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Company Stage
@@ -529,6 +642,74 @@ export default function EquityInput() {
                         <option value="public">🏛️ Public</option>
                       </select>
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Tax Track
+                      </label>
+                      <select
+                        value={isSelfEmployed ? 'section3i' : selectedGrantData.taxTrack || 'section102-capital'}
+                        onChange={(e) => updateGrant(selectedGrantData.id, { 
+                          taxTrack: e.target.value as EquityTaxTrack
+                        })}
+                        disabled={isSelfEmployed}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                      >
+                        <option value="section102-capital">Section 102 - Capital Gains</option>
+                        <option value="section102-ordinary">Section 102 - Ordinary Income</option>
+                        <option value="section3i">Section 3(i)</option>
+                        <option value="non-israeli">Non-Israeli Plan</option>
+                      </select>
+                      {isSelfEmployed && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          Contractor mode: Section 102 is only available to employees, so the whole gain is taxed as income under Section 3(i)
+                        </p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Planned Sale (Months After Grant)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={selectedGrantData.holdingMonthsAtSale ?? ''}
+                        placeholder="End of trustee period"
+                        onChange={(e) => updateGrant(selectedGrantData.id, { 
+                          holdingMonthsAtSale: e.target.value === '' ? undefined : Number(e.target.value)
+                        })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+
+                    {!isSelfEmployed && selectedGrantData.companyStage === 'public' && (selectedGrantData.taxTrack || 'section102-capital') === 'section102-capital' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Share Price at Grant (USD)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={selectedGrantData.grantDatePrice ?? ''}
+                          placeholder="Required"
+                          onChange={(e) => updateGrant(selectedGrantData.id, { 
+                            grantDatePrice: e.target.value === '' ? undefined : Number(e.target.value)
+                          })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Taxed as income; only the gain above it gets the 25% capital gains rate
+                        </p>
+                        {selectedGrantData.grantDatePrice === undefined && (
+                          <p className="text-xs text-red-600 mt-1">
+                            Required - the calculation will not run until the share price at grant is entered
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </TabsContent>
 
@@ -620,6 +801,11 @@ export default function EquityInput() {
                         onChange={(e) => updateGrant(selectedGrantData.id, { currentStockPrice: Number(e.target.value) })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       />
+                      {selectedGrantData.capTable && selectedGrantData.companyStage !== 'public' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Valued at the waterfall&apos;s common share value instead
+                        </p>
+                      )}
                     </div>
 
                     <div>
@@ -638,23 +824,55 @@ export default function EquityInput() {
                     </div>
                   </div>
 
+                  {selectedGrantData.companyStage !== 'public' && (
+                    <CapTableInput
+                      capTable={selectedGrantData.capTable}
+                      onChange={(capTable) => updateGrant(selectedGrantData.id, { capTable })}
+                    />
+                  )}
+
+                  {selectedGrantData.companyStage !== 'public' && (
+                    <DilutionInput
+                      grant={selectedGrantData}
+                      onChange={(dilution) => updateGrant(selectedGrantData.id, { dilution })}
+                    />
+                  )}
+
+                  {selectedGrantData.companyStage !== 'public' && (
+                    <ExitScenariosInput
+                      grant={selectedGrantData}
+                      onChange={(exitScenarios) => updateGrant(selectedGrantData.id, { exitScenarios })}
+                    />
+                  )}
+
+                  {selectedGrantData.companyStage === 'public' && selectedGrantData.type === 'RSU' && (
+                    <PriceSimulationInput
+                      grant={selectedGrantData}
+                      onChange={(priceSimulation) => updateGrant(selectedGrantData.id, { priceSimulation })}
+                    />
+                  )}
+
                   {/* Current Value Display */}
-                  {selectedGrantData.currentStockPrice && selectedGrantData.currentStockPrice > 0 && (
+                  {EquityValuator.getSharePrice(selectedGrantData) > 0 && (
                     <Card className="bg-green-50 border-green-200">
                       <CardContent className="p-4">
                         <h4 className="text-sm font-medium text-green-900 mb-2">💰 Current Equity Value</h4>
                         <div className="grid grid-cols-2 gap-4 text-sm">
                           <div>
                             <div className="text-green-700">
-                              {selectedGrantData.type === 'RSU' ? 'Gross Value:' : 'Intrinsic Value:'}
+                              {selectedGrantData.type === 'RSU' ? 'Gross Value:' : 'Option Value:'}
                             </div>
                             <div className="font-semibold text-green-900">
                               ${(selectedGrantData.type === 'RSU' 
-                                ? selectedGrantData.amount * selectedGrantData.currentStockPrice
+                                ? selectedGrantData.amount * EquityValuator.getSharePrice(selectedGrantData)
                                 : selectedGrantData.strikePrice !== undefined
-                                  ? selectedGrantData.amount * Math.max(0, selectedGrantData.currentStockPrice - selectedGrantData.strikePrice)
+                                  ? selectedGrantData.amount * OptionPricer.valuePerShare(
+                                      EquityValuator.getSharePrice(selectedGrantData),
+                                      selectedGrantData.strikePrice,
+                                      selectedGrantData.optionPricing
+                                    )
                                   : 0
-                              ).toLocaleString()}
+                              ).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                             </div>
                           </div>
                           {selectedGrantData.type !== 'RSU' && selectedGrantData.strikePrice && (
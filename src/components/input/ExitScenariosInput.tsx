@@ -0,0 +1,166 @@
+'use client';
+
+import React from 'react';
+import { EquityGrant, ExitScenario } from '@/types';
+import { Button } from '@/components/ui/button';
+import { ExitScenarioSimulator } from '@/utils/exit-scenario-simulator';
+import { EXIT_SCENARIO_DISCOUNT_RATE } from '@/constants/israeli-tax';
+
+interface ExitScenariosInputProps {
+  grant: EquityGrant;
+  onChange: (exitScenarios: ExitScenario[] | undefined) => void;
+}
+
+const DEFAULT_SCENARIOS: Omit<ExitScenario, 'id'>[] = [
+  { name: 'Failure', probability: 40, yearsToExit: 3, exitValue: 0 },
+  { name: 'Acqui-hire', probability: 25, yearsToExit: 2, exitValue: 30000000 },
+  { name: 'Modest exit', probability: 25, yearsToExit: 5, exitValue: 300000000 },
+  { name: 'IPO', probability: 10, yearsToExit: 7, exitValue: 1500000000 }
+];
+
+const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+export default function ExitScenariosInput({ grant, onChange }: ExitScenariosInputProps) {
+  const scenarios = grant.exitScenarios;
+
+  const updateScenario = (scenarioId: string, updates: Partial<ExitScenario>) => {
+    if (!scenarios) return;
+    onChange(scenarios.map(scenario => scenario.id === scenarioId ? { ...scenario, ...updates } : scenario));
+  };
+
+  const analysis = scenarios && ExitScenarioSimulator.analyze(grant);
+  const totalProbability = scenarios?.reduce((sum, scenario) => sum + scenario.probability, 0) || 0;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Exit Scenarios
+        </label>
+        <input
+          type="checkbox"
+          checked={!!scenarios}
+          onChange={(e) => onChange(e.target.checked
+            ? DEFAULT_SCENARIOS.map((scenario, index) => ({ ...scenario, id: `scenario-${Date.now()}-${index}` }))
+            : undefined)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+      </div>
+
+      {scenarios && analysis && (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-gray-600">
+                <th className="text-left py-1 px-1">Scenario</th>
+                <th className="text-right py-1 px-1">Probability (%)</th>
+                <th className="text-right py-1 px-1">Years to Exit</th>
+                <th className="text-right py-1 px-1">Exit Value (USD)</th>
+                <th className="text-right py-1 px-1">Grant Value Today</th>
+                <th className="py-1 px-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((scenario) => (
+                <tr key={scenario.id} className="border-b">
+                  <td className="py-1 px-1">
+                    <input
+                      type="text"
+                      value={scenario.name}
+                      onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="5"
+                      value={scenario.probability}
+                      onChange={(e) => updateScenario(scenario.id, { probability: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={scenario.yearsToExit}
+                      onChange={(e) => updateScenario(scenario.id, { yearsToExit: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1000000"
+                      value={scenario.exitValue}
+                      onChange={(e) => updateScenario(scenario.id, { exitValue: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1 px-1 text-right font-medium">
+                    ${Math.round(analysis.outcomes.find(outcome => outcome.scenarioId === scenario.id)?.presentValue || 0).toLocaleString()}
+                  </td>
+                  <td className="py-1 px-1 text-right">
+                    <button
+                      onClick={() => onChange(scenarios.filter(s => s.id !== scenario.id))}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([
+              ...scenarios,
+              { id: `scenario-${Date.now()}`, name: 'New scenario', probability: 0, yearsToExit: 4, exitValue: 100000000 }
+            ])}
+          >
+            + Add Scenario
+          </Button>
+
+          {totalProbability !== 100 && (
+            <p className="text-xs text-yellow-700">
+              Probabilities add up to {totalProbability}% - they are scaled to 100% for the valuation.
+            </p>
+          )}
+
+          {/* Distribution */}
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div>
+                <div className="text-lg font-bold text-purple-900">${Math.round(analysis.expectedValue).toLocaleString()}</div>
+                <div className="text-xs text-purple-700">Expected Value</div>
+              </div>
+              <div>
+                <div className="text-lg font-semibold text-gray-900">${Math.round(analysis.p10).toLocaleString()}</div>
+                <div className="text-xs text-gray-600">P10</div>
+              </div>
+              <div>
+                <div className="text-lg font-semibold text-gray-900">${Math.round(analysis.p50).toLocaleString()}</div>
+                <div className="text-xs text-gray-600">P50 (Median)</div>
+              </div>
+              <div>
+                <div className="text-lg font-semibold text-gray-900">${Math.round(analysis.p90).toLocaleString()}</div>
+                <div className="text-xs text-gray-600">P90</div>
+              </div>
+            </div>
+            <p className="text-xs text-purple-700 mt-2">
+              💡 The expected value replaces the stage-based risk discount for this grant. Each exit is discounted at {EXIT_SCENARIO_DISCOUNT_RATE * 100}% a year back to today.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
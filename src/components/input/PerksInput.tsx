@@ -2,10 +2,18 @@
 
 import React from 'react';
 import { useCompensation } from '@/contexts/CompensationContext';
+import { TECH_PERKS_BENCHMARKS_2024, DEFAULT_PERK_TAX_TREATMENT, PERK_LABELS } from '@/constants/israeli-tax';
+import { getTaxRules } from '@/constants/tax-rules';
+import { TaxCalculator } from '@/utils/tax-calculator';
+import { BenefitsCalculator } from '@/utils/benefits-calculator';
+import { CarFuelType, PerkKey, PerkTaxTreatment } from '@/types';
 
 export default function PerksInput() {
   const { state, dispatch } = useCompensation();
-  const { perks } = state.currentPackage;
+  const { perks, taxYear } = state.currentPackage;
+  const rules = getTaxRules(taxYear);
+  const carBenefit = perks.companyCar ? TaxCalculator.calculateCarBenefit(perks.companyCar, rules) : null;
+  const activePerks = Object.keys(BenefitsCalculator.calculatePerksValue(perks, rules).breakdown) as PerkKey[];
 
   const handlePerksChange = (updates: Partial<typeof perks>) => {
     dispatch({
@@ -83,10 +91,146 @@ export default function PerksInput() {
             />
           </div>
           <p className="text-sm text-gray-600 mt-2">
-            💡 Public transport allowance up to ₪380/month is tax-exempt. Parking worth ₪200-500/month in Tel Aviv.
+            💡 Travel allowances are taxed as salary. Parking worth ₪200-500/month in Tel Aviv.
           </p>
         </div>
 
+        {/* Company Car */}
+        <div className="border-b border-gray-200 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Company Car (Leasing)
+            </label>
+            <input
+              type="checkbox"
+              checked={!!perks.companyCar}
+              onChange={(e) => handlePerksChange({
+                companyCar: e.target.checked
+                  ? {
+                      valuation: 'listPrice',
+                      listPrice: TECH_PERKS_BENCHMARKS_2024.companyCar.listPrice,
+                      priceGroup: 3,
+                      fuelType: 'gasoline',
+                      fuelCard: true,
+                      monthlyFuelValue: TECH_PERKS_BENCHMARKS_2024.companyCar.monthlyFuelValue,
+                      employeeParticipation: 0
+                    }
+                  : undefined
+              })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+          {perks.companyCar && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Valuation</label>
+                  <select
+                    value={perks.companyCar.valuation}
+                    onChange={(e) => handlePerksChange({
+                      companyCar: { ...perks.companyCar!, valuation: e.target.value as 'listPrice' | 'priceGroup' }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="listPrice">List price</option>
+                    <option value="priceGroup">Price group</option>
+                  </select>
+                </div>
+                {perks.companyCar.valuation === 'listPrice' ? (
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">List Price (₪)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1000"
+                      value={perks.companyCar.listPrice}
+                      onChange={(e) => handlePerksChange({
+                        companyCar: { ...perks.companyCar!, listPrice: Number(e.target.value) }
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Price Group</label>
+                    <select
+                      value={perks.companyCar.priceGroup}
+                      onChange={(e) => handlePerksChange({
+                        companyCar: { ...perks.companyCar!, priceGroup: Number(e.target.value) }
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {[1, 2, 3, 4, 5, 6, 7].map(group => (
+                        <option key={group} value={group}>Group {group}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Fuel Type</label>
+                  <select
+                    value={perks.companyCar.fuelType}
+                    onChange={(e) => handlePerksChange({
+                      companyCar: { ...perks.companyCar!, fuelType: e.target.value as CarFuelType }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="gasoline">Gasoline</option>
+                    <option value="hybrid">Hybrid</option>
+                    <option value="plugInHybrid">Plug-in hybrid</option>
+                    <option value="electric">Electric</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Employee Participation (₪/month)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={perks.companyCar.employeeParticipation}
+                    onChange={(e) => handlePerksChange({
+                      companyCar: { ...perks.companyCar!, employeeParticipation: Number(e.target.value) }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={perks.companyCar.fuelCard}
+                    onChange={(e) => handlePerksChange({
+                      companyCar: { ...perks.companyCar!, fuelCard: e.target.checked }
+                    })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Fuel card</span>
+                </div>
+                {perks.companyCar.fuelCard && (
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Monthly Fuel (₪)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={perks.companyCar.monthlyFuelValue}
+                      onChange={(e) => handlePerksChange({
+                        companyCar: { ...perks.companyCar!, monthlyFuelValue: Number(e.target.value) }
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                )}
+              </div>
+              {carBenefit && (
+                <p className="text-sm text-gray-600">
+                  💡 Taxable car benefit (shovi shimush): ₪{Math.round(carBenefit.monthlyTaxableBenefit).toLocaleString()}/month
+                  is added to your gross salary for tax purposes.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Technology & Equipment */}
         <div className="border-b border-gray-200 pb-6">
           <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -238,6 +382,36 @@ export default function PerksInput() {
           </div>
         </div>
 
+        {/* Perk Tax Treatment */}
+        {activePerks.length > 0 && (
+          <div className="border-b border-gray-200 pb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Tax Treatment
+            </label>
+            <div className="space-y-2">
+              {activePerks.map((perk) => (
+                <div key={perk} className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-gray-700">{PERK_LABELS[perk]}</span>
+                  <select
+                    value={perks.taxTreatment?.[perk] ?? DEFAULT_PERK_TAX_TREATMENT[perk]}
+                    onChange={(e) => handlePerksChange({
+                      taxTreatment: { ...perks.taxTreatment, [perk]: e.target.value as PerkTaxTreatment }
+                    })}
+                    className="w-48 px-3 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="exempt">Tax-exempt</option>
+                    <option value="taxable">Taxable to me</option>
+                    <option value="grossedUp">Grossed up by employer</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600 mt-2">
+              💡 Taxable perks are added to your salary and taxed at your marginal rate. Grossed-up perks are taxed too, but the employer pays the tax.
+            </p>
+          </div>
+        )}
+
         {/* Perks Summary */}
         <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
           <h4 className="text-sm font-medium text-orange-900 mb-2">🎯 Perks Valuation Tips</h4>
@@ -245,7 +419,7 @@ export default function PerksInput() {
             <li>• Remote work can save ₪1,000+ monthly on commuting and meals</li>
             <li>• Professional development budget adds long-term career value</li>
             <li>• Office amenities and meal allowances reduce personal expenses</li>
-            <li>• Consider the tax implications of different perk types</li>
+            <li>• Meal cards and cash stipends are taxed as salary unless the employer grosses them up</li>
           </ul>
         </div>
       </div>
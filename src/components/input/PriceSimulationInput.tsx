@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Area, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { EquityGrant, PriceSimulationInputs } from '@/types';
+import { Button } from '@/components/ui/button';
+import { DEFAULT_PRICE_SIMULATION, PRICE_SIMULATION_MAX_PATHS } from '@/constants/israeli-tax';
+import { EquityValuator } from '@/utils/equity-valuator';
+import { PriceSimulator } from '@/utils/price-simulator';
+import { importPriceHistoryCSV } from '@/utils/export-utils';
+
+interface PriceSimulationInputProps {
+  grant: EquityGrant;
+  onChange: (priceSimulation: PriceSimulationInputs | undefined) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+const formatUSD = (value: number): string => `$${Math.round(value).toLocaleString()}`;
+
+export default function PriceSimulationInput({ grant, onChange }: PriceSimulationInputProps) {
+  const [view, setView] = useState<'year' | 'vest'>('year');
+  const [importError, setImportError] = useState<string | null>(null);
+  const simulation = grant.priceSimulation;
+
+  const updateSimulation = (updates: Partial<PriceSimulationInputs>) => {
+    if (simulation) onChange({ ...simulation, ...updates });
+  };
+
+  const handleHistoryImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      const { prices, periodsPerYear } = await importPriceHistoryCSV(file);
+      const { expectedReturn, volatility } = PriceSimulator.calibrate(prices, periodsPerYear);
+      updateSimulation({
+        expectedReturn: Math.round(expectedReturn * 10) / 10,
+        volatility: Math.round(volatility * 10) / 10,
+        calibratedFrom: { observations: prices.length, firstPrice: prices[0], lastPrice: prices[prices.length - 1] }
+      });
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+    event.target.value = '';
+  };
+
+  const result = simulation && PriceSimulator.simulateVesting(
+    EquityValuator.calculateVestingSchedule(grant),
+    grant.currentStockPrice || 0,
+    simulation
+  );
+
+  // Outer band p10-p90, inner band p25-p75, line at the median
+  const chartData = result && (view === 'year'
+    ? result.years.map(year => ({ label: String(year.year), band: year.value }))
+    : result.events.map(event => ({ label: event.date.toLocaleDateString(), band: event.value })))
+    .map(point => ({
+      label: point.label,
+      outer: [point.band.p10, point.band.p90],
+      inner: [point.band.p25, point.band.p75],
+      median: point.band.p50
+    }));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Simulate Future Share Price (Monte Carlo)
+        </label>
+        <input
+          type="checkbox"
+          checked={!!simulation}
+          onChange={(e) => onChange(e.target.checked ? { ...DEFAULT_PRICE_SIMULATION } : undefined)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+      </div>
+
+      {simulation && result && chartData && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Expected Return (%)</label>
+              <input
+                type="number"
+                step="0.5"
+                value={simulation.expectedReturn}
+                onChange={(e) => updateSimulation({ expectedReturn: Number(e.target.value), calibratedFrom: undefined })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Volatility (%)</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={simulation.volatility}
+                onChange={(e) => updateSimulation({ volatility: Number(e.target.value), calibratedFrom: undefined })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Paths</label>
+              <input
+                type="number"
+                min="100"
+                max={PRICE_SIMULATION_MAX_PATHS}
+                step="100"
+                value={simulation.paths}
+                onChange={(e) => updateSimulation({ paths: Math.min(PRICE_SIMULATION_MAX_PATHS, Math.max(1, Number(e.target.value))) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Seed</label>
+              <input
+                type="number"
+                step="1"
+                value={simulation.seed}
+                onChange={(e) => updateSimulation({ seed: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <input
+                  type="file"
+                  accept=".csv"
+                  onChange={handleHistoryImport}
+                  className="hidden"
+                />
+                Calibrate from price history CSV
+              </label>
+            </Button>
+            <span className="text-xs text-gray-500">
+              {simulation.calibratedFrom
+                ? `Calibrated from ${simulation.calibratedFrom.observations} prices ($${simulation.calibratedFrom.firstPrice} to $${simulation.calibratedFrom.lastPrice})`
+                : 'Uses the Adj Close or Close column'}
+            </span>
+          </div>
+          {importError && (
+            <p className="text-xs text-red-600">{importError}</p>
+          )}
+
+          {/* Fan Chart */}
+          <div className="flex space-x-2">
+            <Button variant={view === 'year' ? 'default' : 'outline'} size="sm" onClick={() => setView('year')}>
+              Per Year
+            </Button>
+            <Button variant={view === 'vest' ? 'default' : 'outline'} size="sm" onClick={() => setView('vest')}>
+              Per Vest
+            </Button>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={(value: number) => `$${Math.round(value / 1000)}k`} tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value) => Array.isArray(value)
+                    ? `${formatUSD(Number(value[0]))} - ${formatUSD(Number(value[1]))}`
+                    : formatUSD(Number(value))}
+                />
+                <Area type="monotone" dataKey="outer" name="P10 - P90" stroke="none" fill="#8B5CF6" fillOpacity={0.15} />
+                <Area type="monotone" dataKey="inner" name="P25 - P75" stroke="none" fill="#8B5CF6" fillOpacity={0.3} />
+                <Line type="monotone" dataKey="median" name="Median" stroke="#6D28D9" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-gray-600">
+                <th className="text-left py-1">Year</th>
+                <th className="text-right py-1">P10</th>
+                <th className="text-right py-1">P50</th>
+                <th className="text-right py-1">P90</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.years.map((year) => (
+                <tr key={year.year} className="border-b">
+                  <td className="py-1">{year.year}</td>
+                  <td className="py-1 text-right">{formatUSD(year.value.p10)}</td>
+                  <td className="py-1 text-right font-medium">{formatUSD(year.value.p50)}</td>
+                  <td className="py-1 text-right">{formatUSD(year.value.p90)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500">
+            💡 Geometric Brownian motion run in the browser - the same seed always gives the same bands. Vests are valued at the median.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useCompensation } from '@/contexts/CompensationContext';
+import { getTaxRules } from '@/constants/tax-rules';
+import { TaxCalculator } from '@/utils/tax-calculator';
+import { CreditPointsCalculator } from '@/utils/credit-points-calculator';
+import { BenefitsCalculator } from '@/utils/benefits-calculator';
+import { CompensationCalculator } from '@/utils/compensation-calculator';
+import { SelfEmployedCalculator } from '@/utils/self-employed-calculator';
+import { WORKING_HOURS_2024 } from '@/constants/israeli-tax';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -9,7 +16,17 @@ import { Separator } from '@/components/ui/separator';
 
 export default function SalaryInput() {
   const { state, dispatch } = useCompensation();
-  const { salary } = state.currentPackage;
+  const { salary, benefits, taxProfile, taxYear, employmentType, selfEmployed } = state.currentPackage;
+  const isSelfEmployed = employmentType === 'selfEmployed';
+  const [entryMode, setEntryMode] = useState<'gross' | 'net'>('gross');
+  const [targetNet, setTargetNet] = useState(0);
+
+  const rules = getTaxRules(taxYear);
+  const creditPoints = CreditPointsCalculator.calculateCreditPoints(taxProfile, rules).totalPoints;
+  const pensionEmployeeRate = benefits.pensionFund.employeeContribution / 100;
+  const recuperationPay = BenefitsCalculator.calculateRecuperationPay(salary.seniorityYears, rules);
+  const monthlyBaseSalary = CompensationCalculator.getMonthlyBaseSalary(salary);
+  const vat = SelfEmployedCalculator.calculateVat(monthlyBaseSalary * 12, selfEmployed, rules);
 
   const handleSalaryChange = (updates: Partial<typeof salary>) => {
     dispatch({
@@ -18,71 +35,291 @@ export default function SalaryInput() {
     });
   };
 
+  const handleSelfEmployedChange = (updates: Partial<typeof selfEmployed>) => {
+    dispatch({
+      type: 'UPDATE_SELF_EMPLOYED',
+      payload: updates
+    });
+  };
+
+  // Net entry always fills a monthly ILS gross salary
+  const handleTargetNetChange = (netMonthly: number) => {
+    setTargetNet(netMonthly);
+    const { grossSalary } = TaxCalculator.getGrossFromNet(netMonthly, creditPoints, rules, taxProfile.residenceLocality, pensionEmployeeRate);
+    handleSalaryChange({ baseSalary: grossSalary, currency: 'ILS', frequency: 'monthly' });
+  };
+
   return (
     <div className="space-y-6">
-      {/* Base Salary */}
+      {/* Employment Type */}
       <div className="space-y-4">
-        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
-          <span>💰</span>
-          Base Salary
-        </h3>
-        
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div className="md:col-span-2">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Amount
-            </label>
-            <input
-              type="number"
-              min="0"
-              step="1000"
-              value={salary.baseSalary}
-              onChange={(e) => handleSalaryChange({ baseSalary: Number(e.target.value) })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="25000"
-            />
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Currency
-            </label>
-            <select
-              value={salary.currency}
-              onChange={(e) => handleSalaryChange({ currency: e.target.value as 'ILS' | 'USD' })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <span>🧑‍💼</span>
+            Employment Type
+          </h3>
+          <div className="flex gap-2">
+            <Button
+              variant={!isSelfEmployed ? "default" : "outline"}
+              size="sm"
+              onClick={() => dispatch({ type: 'SET_EMPLOYMENT_TYPE', payload: 'employee' })}
+            >
+              Employee
+            </Button>
+            <Button
+              variant={isSelfEmployed ? "default" : "outline"}
+              size="sm"
+              onClick={() => {
+                setEntryMode('gross');
+                dispatch({ type: 'SET_EMPLOYMENT_TYPE', payload: 'selfEmployed' });
+              }}
             >
-              <option value="ILS">₪ ILS (Shekel)</option>
-              <option value="USD">$ USD (Dollar)</option>
-            </select>
+              Contractor (Osek)
+            </Button>
           </div>
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Payment Frequency
-            </label>
-            <select
-              value={salary.frequency}
-              onChange={(e) => handleSalaryChange({ frequency: e.target.value as 'monthly' | 'annual' })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="monthly">Monthly</option>
-              <option value="annual">Annual</option>
-            </select>
-          </div>
+        {isSelfEmployed && (
+          <Card className="bg-amber-50 border-amber-200">
+            <CardContent className="p-4 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    VAT Registration
+                  </label>
+                  <select
+                    value={selfEmployed.dealerType}
+                    onChange={(e) => handleSelfEmployedChange({ dealerType: e.target.value as 'murshe' | 'patur' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                  >
+                    <option value="murshe">Osek Murshe (charges VAT)</option>
+                    <option value="patur">Osek Patur (VAT-exempt)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Business Expenses (₪/month, before VAT)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={selfEmployed.monthlyExpenses}
+                    onChange={(e) => handleSelfEmployedChange({ monthlyExpenses: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pension Deposit (% of income)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="30"
+                    step="0.5"
+                    value={selfEmployed.pensionRate}
+                    onChange={(e) => handleSelfEmployedChange({ pensionRate: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Study Fund Deposit (% of income)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    step="0.5"
+                    value={selfEmployed.studyFundRate}
+                    onChange={(e) => handleSelfEmployedChange({ studyFundRate: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-amber-800">
+                {selfEmployed.dealerType === 'murshe'
+                  ? `VAT of ${(rules.vat.rate * 100).toFixed(0)}% is charged on top of your fees and passed on to the tax authority.`
+                  : `An osek patur charges no VAT, up to ₪${rules.vat.exemptDealerTurnoverCeiling.toLocaleString()} turnover a year.`}
+                {vat.exceedsExemptCeiling && ' Your fees are above the ceiling, so you would have to register as an osek murshe.'}
+                {' '}Self-employed Bituach Leumi applies, and pension deposits are mandatory. Employer benefits, severance and recuperation pay do not apply.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Separator />
+
+      {/* Base Salary */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <span>💰</span>
+            {isSelfEmployed ? 'Contractor Fees' : 'Base Salary'}
+          </h3>
+          {!isSelfEmployed && (
+            <div className="flex gap-2">
+              <Button
+                variant={entryMode === 'gross' ? "default" : "outline"}
+                size="sm"
+                onClick={() => setEntryMode('gross')}
+              >
+                Gross
+              </Button>
+              <Button
+                variant={entryMode === 'net' ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setEntryMode('net');
+                  handleTargetNetChange(targetNet || TaxCalculator.getNetSalary(
+                    salary.currency === 'ILS' && salary.frequency === 'monthly' ? salary.baseSalary : 0,
+                    creditPoints,
+                    rules,
+                    pensionEmployeeRate,
+                    taxProfile.residenceLocality
+                  ).netSalary);
+                }}
+              >
+                Net (Neto)
+              </Button>
+            </div>
+          )}
+        </div>
+        
+        {entryMode === 'net' ? (
+          <Card className="bg-blue-50 border-blue-200">
+            <CardContent className="p-4 space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Target Net Monthly Salary (₪)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="500"
+                  value={Math.round(targetNet)}
+                  onChange={(e) => handleTargetNetChange(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="20000"
+                />
+              </div>
+              <div className="text-sm text-blue-900">
+                Required gross: <strong>₪{salary.baseSalary.toLocaleString()}</strong> per month
+              </div>
+              <p className="text-xs text-blue-700">
+                Net after income tax, Bituach Leumi, health tax, surtax, pension and study fund, with {creditPoints.toFixed(2)} credit points for {rules.year}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {salary.frequency === 'hourly' ? 'Hourly Rate' : 'Amount'}{isSelfEmployed && ' (before VAT)'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step={salary.frequency === 'hourly' ? 5 : 1000}
+                  value={salary.baseSalary}
+                  onChange={(e) => handleSalaryChange({ baseSalary: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="25000"
+                />
+              </div>
+          
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Currency
+                </label>
+                <select
+                  value={salary.currency}
+                  onChange={(e) => handleSalaryChange({ currency: e.target.value as 'ILS' | 'USD' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="ILS">₪ ILS (Shekel)</option>
+                  <option value="USD">$ USD (Dollar)</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Payment Frequency
+                </label>
+                <select
+                  value={salary.frequency}
+                  onChange={(e) => handleSalaryChange({ frequency: e.target.value as 'monthly' | 'annual' | 'hourly' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="annual">Annual</option>
+                  <option value="hourly">Hourly</option>
+                </select>
+              </div>
           
-          <div className="flex items-end">
-            <div className="text-sm text-gray-600">
-              {salary.frequency === 'monthly' ? (
-                <span>Annual: <strong>{salary.currency} {(salary.baseSalary * 12).toLocaleString()}</strong></span>
+              {salary.frequency === 'hourly' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Hours per Month
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="300"
+                    value={salary.hoursPerMonth || WORKING_HOURS_2024.fullTimeMonthlyHours}
+                    onChange={(e) => handleSalaryChange({ hoursPerMonth: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
               ) : (
-                <span>Monthly: <strong>{salary.currency} {(salary.baseSalary / 12).toLocaleString()}</strong></span>
+                <div className="flex items-end">
+                  <div className="text-sm text-gray-600">
+                    {salary.frequency === 'monthly' ? (
+                      <span>Annual: <strong>{salary.currency} {(salary.baseSalary * 12).toLocaleString()}</strong></span>
+                    ) : (
+                      <span>Monthly: <strong>{salary.currency} {(salary.baseSalary / 12).toLocaleString()}</strong></span>
+                    )}
+                  </div>
+                </div>
               )}
             </div>
-          </div>
-        </div>
+
+            {salary.frequency === 'hourly' && (
+              <div className="text-sm text-gray-600">
+                Monthly: <strong>{salary.currency} {Math.round(monthlyBaseSalary).toLocaleString()}</strong>
+                {' '}(full time is {WORKING_HOURS_2024.fullTimeMonthlyHours} hours a month)
+              </div>
+            )}
+
+            {!isSelfEmployed && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Global Overtime (monthly)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="500"
+                    value={salary.globalOvertime || 0}
+                    onChange={(e) => handleSalaryChange({ globalOvertime: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="flex items-end">
+                  <p className="text-xs text-gray-600">
+                    Global overtime (sh&apos;ot nosafot globaliot) is taxed as salary but excluded from the pension and severance base.
+                  </p>
+                </div>
+              </div>
+            )}
+          </>
+        )}
       </div>
 
       <Separator />
@@ -181,6 +418,67 @@ export default function SalaryInput() {
         )}
       </div>
 
+      {!isSelfEmployed && <Separator />}
+
+      {/* Recuperation Pay and Holiday Gifts */}
+      {!isSelfEmployed && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <span>🏖️</span>
+            Recuperation Pay & Holiday Gifts
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Year of Service
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="50"
+                value={salary.seniorityYears ?? 1}
+                onChange={(e) => handleSalaryChange({ seniorityYears: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Rosh Hashana Gift (₪)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={salary.holidayGifts?.roshHashana ?? 0}
+                onChange={(e) => handleSalaryChange({
+                  holidayGifts: { roshHashana: Number(e.target.value), passover: salary.holidayGifts?.passover ?? 0 }
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Passover Gift (₪)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={salary.holidayGifts?.passover ?? 0}
+                onChange={(e) => handleSalaryChange({
+                  holidayGifts: { roshHashana: salary.holidayGifts?.roshHashana ?? 0, passover: Number(e.target.value) }
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            Recuperation pay (dmei havra&apos;a): {recuperationPay.days} days × ₪{recuperationPay.dailyRate} = ₪{recuperationPay.annualAmount.toLocaleString()} a year, taxed as salary.
+            Gifts up to ₪{rules.holidayGifts.exemptThresholdPerGift} each are tax-exempt.
+          </p>
+        </div>
+      )}
+
       {/* Quick Tips */}
       <Card className="bg-blue-50 border-blue-200">
         <CardContent className="p-4">
@@ -189,7 +487,7 @@ export default function SalaryInput() {
             Salary Tips
           </h4>
           <ul className="text-sm text-blue-800 space-y-1">
-            <li>• Enter your gross salary (before taxes and deductions)</li>
+            <li>• Enter your gross salary (before taxes and deductions), or switch to net to find the gross you need</li>
             <li>• Many Israeli tech contracts are negotiated in USD</li>
             <li>• Include guaranteed bonuses as part of base compensation</li>
             <li>• Variable bonuses should be estimated conservatively</li>
@@ -0,0 +1,376 @@
+'use client';
+
+import React from 'react';
+import { Gender } from '@/types';
+import { useCompensation } from '@/contexts/CompensationContext';
+import { CreditPointsCalculator } from '@/utils/credit-points-calculator';
+import { HouseholdCalculator } from '@/utils/household-calculator';
+import { getTaxRules } from '@/constants/tax-rules';
+
+export default function TaxProfileInput() {
+  const { state, dispatch } = useCompensation();
+  const { taxProfile, taxYear, household } = state.currentPackage;
+  const rules = getTaxRules(taxYear);
+  const currentYear = new Date().getFullYear();
+
+  const handleProfileChange = (updates: Partial<typeof taxProfile>) => {
+    dispatch({
+      type: 'UPDATE_TAX_PROFILE',
+      payload: updates
+    });
+  };
+
+  const handleHouseholdChange = (updates: Partial<NonNullable<typeof household>['partner']>) => {
+    dispatch({
+      type: 'SET_HOUSEHOLD',
+      payload: household && { partner: { ...household.partner, ...updates } }
+    });
+  };
+
+  const creditPoints = CreditPointsCalculator.calculateCreditPoints(taxProfile, rules);
+  const partnerCreditPoints = household &&
+    CreditPointsCalculator.calculateCreditPoints(HouseholdCalculator.getPartnerProfile(household, taxProfile), rules);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">🧾 Tax Credit Points (Nekudot Zikui)</h3>
+
+      <div className="space-y-6">
+        {/* Gender */}
+        <div className="border-b border-gray-200 pb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            Personal Details
+          </label>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Gender</label>
+            <select
+              value={taxProfile.gender}
+              onChange={(e) => handleProfileChange({ gender: e.target.value as Gender })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="male">Man</option>
+              <option value="female">Woman</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Children */}
+        <div className="border-b border-gray-200 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Children
+            </label>
+            <button
+              onClick={() => handleProfileChange({
+                children: [...taxProfile.children, { birthYear: currentYear }]
+              })}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Add Child
+            </button>
+          </div>
+          <div className="space-y-2">
+            {taxProfile.children.map((child, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <label className="text-xs text-gray-600 w-24">Birth year</label>
+                <input
+                  type="number"
+                  min="1990"
+                  max={currentYear}
+                  value={child.birthYear}
+                  onChange={(e) => handleProfileChange({
+                    children: taxProfile.children.map((c, i) => i === index ? { birthYear: Number(e.target.value) } : c)
+                  })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  onClick={() => handleProfileChange({
+                    children: taxProfile.children.filter((_, i) => i !== index)
+                  })}
+                  className="text-red-600 hover:text-red-800 text-sm"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            {taxProfile.children.length === 0 && (
+              <p className="text-sm text-gray-500">No children added</p>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Points follow each child&apos;s age in the tax year, including the toddler points up to age 5.
+            Daycare subsidies and disabled-child points are not included.
+          </p>
+        </div>
+
+        {/* New Immigrant */}
+        <div className="border-b border-gray-200 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              New Immigrant (Oleh Chadash)
+            </label>
+            <input
+              type="checkbox"
+              checked={!!taxProfile.newImmigrant}
+              onChange={(e) => handleProfileChange({
+                newImmigrant: e.target.checked ? { arrivalYear: currentYear, arrivalMonth: 1 } : undefined
+              })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+          {taxProfile.newImmigrant && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Arrival Year</label>
+                <input
+                  type="number"
+                  min="1990"
+                  max={currentYear}
+                  value={taxProfile.newImmigrant.arrivalYear}
+                  onChange={(e) => handleProfileChange({
+                    newImmigrant: { ...taxProfile.newImmigrant!, arrivalYear: Number(e.target.value) }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Arrival Month</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="12"
+                  value={taxProfile.newImmigrant.arrivalMonth}
+                  onChange={(e) => handleProfileChange({
+                    newImmigrant: { ...taxProfile.newImmigrant!, arrivalMonth: Number(e.target.value) }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Discharged Soldier */}
+        <div className="border-b border-gray-200 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Discharged Soldier / National Service
+            </label>
+            <input
+              type="checkbox"
+              checked={!!taxProfile.dischargedSoldier}
+              onChange={(e) => handleProfileChange({
+                dischargedSoldier: e.target.checked
+                  ? { dischargeYear: currentYear, dischargeMonth: 1, serviceMonths: 32 }
+                  : undefined
+              })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+          {taxProfile.dischargedSoldier && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Discharge Year</label>
+                <input
+                  type="number"
+                  min="1990"
+                  max={currentYear}
+                  value={taxProfile.dischargedSoldier.dischargeYear}
+                  onChange={(e) => handleProfileChange({
+                    dischargedSoldier: { ...taxProfile.dischargedSoldier!, dischargeYear: Number(e.target.value) }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Discharge Month</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="12"
+                  value={taxProfile.dischargedSoldier.dischargeMonth}
+                  onChange={(e) => handleProfileChange({
+                    dischargedSoldier: { ...taxProfile.dischargedSoldier!, dischargeMonth: Number(e.target.value) }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Service (months)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="48"
+                  value={taxProfile.dischargedSoldier.serviceMonths}
+                  onChange={(e) => handleProfileChange({
+                    dischargedSoldier: { ...taxProfile.dischargedSoldier!, serviceMonths: Number(e.target.value) }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Academic Degree */}
+        <div className="border-b border-gray-200 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Academic Degree
+            </label>
+            <input
+              type="checkbox"
+              checked={!!taxProfile.academicDegree}
+              onChange={(e) => handleProfileChange({
+                academicDegree: e.target.checked ? { level: 'bachelor', completionYear: currentYear - 1 } : undefined
+              })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+          {taxProfile.academicDegree && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Degree</label>
+                <select
+                  value={taxProfile.academicDegree.level}
+                  onChange={(e) => handleProfileChange({
+                    academicDegree: { ...taxProfile.academicDegree!, level: e.target.value as 'bachelor' | 'master' | 'phd' }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="bachelor">Bachelor&apos;s</option>
+                  <option value="master">Master&apos;s</option>
+                  <option value="phd">PhD</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Completion Year</label>
+                <input
+                  type="number"
+                  min="1990"
+                  max={currentYear}
+                  value={taxProfile.academicDegree.completionYear}
+                  onChange={(e) => handleProfileChange({
+                    academicDegree: { ...taxProfile.academicDegree!, completionYear: Number(e.target.value) }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Residence */}
+        <div className="border-b border-gray-200 pb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            Eligible Locality (Eilat / Periphery)
+          </label>
+          <select
+            value={taxProfile.residenceLocality || ''}
+            onChange={(e) => handleProfileChange({ residenceLocality: e.target.value || undefined })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Not an eligible locality</option>
+            {rules.residenceLocalities.map(locality => (
+              <option key={locality.id} value={locality.id}>
+                {locality.name} ({(locality.rate * 100).toFixed(0)}% up to ₪{locality.annualIncomeCeiling.toLocaleString()}/yr)
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-gray-600 mt-2">
+            💡 Residence benefits are a percentage credit on income up to a ceiling rather than credit points.
+          </p>
+        </div>
+
+        {/* Household */}
+        <div className="border-b border-gray-200 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Two-Earner Household
+            </label>
+            <input
+              type="checkbox"
+              checked={!!household}
+              onChange={(e) => dispatch({
+                type: 'SET_HOUSEHOLD',
+                payload: e.target.checked
+                  ? {
+                      partner: {
+                        monthlySalary: 15000,
+                        taxProfile: { gender: taxProfile.gender === 'male' ? 'female' : 'male' }
+                      }
+                    }
+                  : undefined
+              })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+          {household && partnerCreditPoints && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Partner Gender</label>
+                  <select
+                    value={household.partner.taxProfile.gender}
+                    onChange={(e) => handleHouseholdChange({
+                      taxProfile: { ...household.partner.taxProfile, gender: e.target.value as Gender }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="male">Man</option>
+                    <option value="female">Woman</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Partner Gross Monthly Salary (₪)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1000"
+                    value={household.partner.monthlySalary}
+                    onChange={(e) => handleHouseholdChange({ monthlySalary: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Partner Pension Contribution (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    step="0.5"
+                    value={household.partner.pensionEmployeeContribution ?? rules.pension.employee.rate * 100}
+                    onChange={(e) => handleHouseholdChange({ pensionEmployeeContribution: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-gray-600">
+                Partner: {partnerCreditPoints.totalPoints.toFixed(2)} credit points, {partnerCreditPoints.childPoints.toFixed(2)} of them for the children above.
+                Each partner is assessed separately with their own credit points.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Credit Points Summary */}
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-blue-900 mb-2">
+            🧮 {creditPoints.totalPoints.toFixed(2)} credit points for {creditPoints.taxYear}
+          </h4>
+          <ul className="text-sm text-blue-800 space-y-1">
+            {creditPoints.components.map((component, index) => (
+              <li key={index} className="flex justify-between">
+                <span>• {component.label}</span>
+                <span>{component.points.toFixed(2)}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-blue-700 mt-2">
+            Each point reduces monthly income tax by ₪{rules.creditPoints.pointValue}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
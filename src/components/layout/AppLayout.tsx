@@ -33,7 +33,7 @@ export default function AppLayout({ children }: AppLayoutProps) {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="text-center text-sm text-gray-600">
             <p>
-              Built for Israeli tech professionals. Calculations based on 2024 Israeli tax law.
+              Built for Israeli tech professionals. Calculations based on Israeli tax law for the selected tax year.
             </p>
             <p className="mt-2">
               <span className="font-medium">Disclaimer:</span> This calculator is for educational purposes only. 
@@ -26,6 +26,9 @@ export default function CalculationBreakdown() {
     setExpandedSection(expandedSection === section ? null : section);
   };
 
+  const { recuperationPay, holidayGifts } = calculation.breakdown.baseSalary.components;
+  const isSelfEmployed = calculation.employmentType === 'selfEmployed';
+
   const sections = [
     {
       id: 'salary',
@@ -35,14 +38,19 @@ export default function CalculationBreakdown() {
       net: calculation.breakdown.baseSalary.net,
       color: 'blue',
       details: {
-        description: 'Your base salary converted to annual ILS and net calculation after taxes',
+        description: isSelfEmployed
+          ? 'Your fees before VAT, net of business expenses, self-employed Bituach Leumi, income tax and your own pension and study fund deposits'
+          : 'Your base salary converted to annual ILS and net calculation after taxes',
         components: [
           'Base salary (monthly/annual)',
           'Currency conversion (if USD)',
           'Bonus calculations (if applicable)',
+          ...(recuperationPay ? [`Recuperation pay (dmei havra'a): ${formatCurrency(recuperationPay.value, 'ILS')} - ${recuperationPay.assumptions[0]}`] : []),
+          ...(holidayGifts ? [`Holiday gifts: ${formatCurrency(holidayGifts.value, 'ILS')} - ${holidayGifts.assumptions[1]}`] : []),
           'Income tax deduction',
           'Bituach Leumi (social security)',
-          'Health tax deduction'
+          'Health tax deduction',
+          'Surtax above the annual high-income threshold'
         ]
       }
     },
@@ -54,10 +62,14 @@ export default function CalculationBreakdown() {
       net: calculation.breakdown.benefits.net,
       color: 'green',
       details: {
-        description: 'Employer contributions to pension, study fund, and health insurance',
+        description: isSelfEmployed
+          ? 'No employer benefits as a contractor - your own pension and study fund deposits are deducted from your fees'
+          : 'Employer contributions to pension, severance, study fund, and health insurance',
         components: [
           'Pension fund employer contribution (6.5% standard)',
           'Study fund employer contribution (7.5% standard)',
+          'Severance deposits portable under Section 14',
+          'Net of tax on imputed income above the exempt limits',
           'Health insurance premium coverage',
           'Vacation days monetary value',
           'Sick days monetary value',
@@ -80,6 +92,7 @@ export default function CalculationBreakdown() {
           'ESPP discount benefits',
           'Vesting schedule considerations',
           'Capital gains tax implications',
+          'Surtax on equity income above the annual threshold',
           'Risk-adjusted valuations'
         ]
       }
@@ -99,7 +112,9 @@ export default function CalculationBreakdown() {
           'Transportation benefits',
           'Learning and development budget',
           'Gym membership subsidies',
-          'Remote work value estimation'
+          'Company car, taxed through the monthly car benefit',
+          'Remote work value estimation',
+          'Net of tax on taxable perks; grossed-up perks keep their full value'
         ]
       }
     }
@@ -204,25 +219,103 @@ export default function CalculationBreakdown() {
                 <span>Bituach Leumi:</span>
                 <span className="font-medium">{formatCurrency(calculation.taxImplications.bituachLeumi, 'ILS')}</span>
               </div>
+              <div className="flex justify-between">
+                <span>Health Tax:</span>
+                <span className="font-medium">{formatCurrency(calculation.taxImplications.healthTax, 'ILS')}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Surtax:</span>
+                <span className="font-medium">{formatCurrency(calculation.taxImplications.surtax, 'ILS')}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Credit Points:</span>
+                <span className="font-medium">{calculation.taxImplications.creditPoints.toFixed(2)}</span>
+              </div>
             </div>
             <div className="space-y-2">
               <div className="flex justify-between">
                 <span>Pension Contrib:</span>
                 <span className="font-medium">{formatCurrency(calculation.taxImplications.pensionContributions, 'ILS')}</span>
               </div>
+              <div className="flex justify-between">
+                <span>Imputed Income:</span>
+                <span className="font-medium">{formatCurrency(calculation.taxImplications.imputedIncome, 'ILS')}</span>
+              </div>
+              <div className="flex justify-between text-green-700">
+                <span>Pension Tax Credit:</span>
+                <span className="font-medium">−{formatCurrency(calculation.taxImplications.pensionTaxCredit, 'ILS')}</span>
+              </div>
+              {calculation.taxImplications.residenceCredit > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Residence Credit:</span>
+                  <span className="font-medium">−{formatCurrency(calculation.taxImplications.residenceCredit, 'ILS')}</span>
+                </div>
+              )}
               <div className="flex justify-between border-t pt-2">
                 <span className="font-medium">Total Deductions:</span>
                 <span className="font-bold">{formatCurrency(calculation.taxImplications.totalDeductions, 'ILS')}</span>
               </div>
             </div>
           </div>
+          <div className="flex justify-between text-xs text-gray-600 mt-3 pt-3 border-t">
+            <span>Employer Bituach Leumi (paid on top of gross, not deducted):</span>
+            <span className="font-medium">{formatCurrency(calculation.taxImplications.employerBituachLeumi, 'ILS')}</span>
+          </div>
         </div>
 
+        {/* Personal Company */}
+        {calculation.personalCompany && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <h4 className="font-medium text-amber-900 mb-3 flex items-center">
+              <span className="mr-2">🏢</span>
+              Osek vs. Personal Company (Chevra Ba&apos;am)
+            </h4>
+            <div className="grid grid-cols-2 gap-4 text-sm text-amber-900">
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span>Company Profit:</span>
+                  <span className="font-medium">{formatCurrency(calculation.personalCompany.companyProfit, 'ILS')}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Corporate Tax:</span>
+                  <span className="font-medium">{formatCurrency(calculation.personalCompany.corporateTax, 'ILS')}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Dividend Tax:</span>
+                  <span className="font-medium">{formatCurrency(calculation.personalCompany.dividendTax, 'ILS')}</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span>Net as Osek:</span>
+                  <span className="font-medium">{formatCurrency(calculation.personalCompany.contractorNetIncome, 'ILS')}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Net via Company:</span>
+                  <span className="font-medium">{formatCurrency(calculation.personalCompany.netIncome, 'ILS')}</span>
+                </div>
+                <div className="flex justify-between border-t border-amber-200 pt-2">
+                  <span className="font-medium">Difference:</span>
+                  <span className="font-bold">
+                    {formatCurrency(calculation.personalCompany.netIncome - calculation.personalCompany.contractorNetIncome, 'ILS')}
+                  </span>
+                </div>
+              </div>
+            </div>
+            <ul className="text-xs text-amber-800 mt-3 pt-3 border-t border-amber-200 space-y-1">
+              <li>• Net as osek includes your own pension and study fund deposits</li>
+              {calculation.personalCompany.assumptions.map((assumption, index) => (
+                <li key={index}>• {assumption}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Methodology */}
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
           <h4 className="text-sm font-medium text-yellow-900 mb-2">📚 Calculation Methodology</h4>
           <ul className="text-sm text-yellow-800 space-y-1">
-            <li>• Tax calculations based on 2024 Israeli tax brackets and rates</li>
+            <li>• Tax calculations based on {calculation.taxYear} Israeli tax brackets and rates</li>
             <li>• Currency conversion uses real-time exchange rates with fallback</li>
             <li>• Benefits valued at employer cost, perks at fair market value</li>
             <li>• Equity valuations include risk adjustments for private companies</li>
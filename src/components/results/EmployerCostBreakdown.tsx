@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { useCompensationCalculation } from '@/hooks/useCompensationCalculation';
+import { EmployerCostLine } from '@/types';
+
+const CATEGORIES: { id: EmployerCostLine['category']; title: string; icon: string }[] = [
+  { id: 'salary', title: 'Salary', icon: '💰' },
+  { id: 'statutory', title: 'Statutory Contributions', icon: '🏛️' },
+  { id: 'benefits', title: 'Benefits', icon: '📈' },
+  { id: 'perks', title: 'Perks', icon: '🎁' },
+  { id: 'equity', title: 'Equity', icon: '💎' }
+];
+
+export default function EmployerCostBreakdown() {
+  const { calculation, formatCurrency } = useCompensationCalculation();
+
+  if (!calculation) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">🏢 Employer Cost</h3>
+        <div className="text-center py-8">
+          <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+            <span className="text-2xl">🏢</span>
+          </div>
+          <p className="text-gray-600 mb-2">No calculation available</p>
+          <p className="text-sm text-gray-500">Run a calculation to see the full cost to the employer</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { employerCost } = calculation;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        🏢 {calculation.employmentType === 'selfEmployed' ? 'Client Cost' : 'Employer Cost (Alut Ma\'asik)'}
+      </h3>
+
+      <div className="space-y-4">
+        {/* Summary */}
+        <div className="bg-gradient-to-r from-slate-50 to-gray-100 rounded-lg p-4 border border-gray-200">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {formatCurrency(employerCost.totalCost, 'ILS')}
+              </div>
+              <div className="text-sm text-gray-600">Total Annual Cost</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {formatCurrency(employerCost.monthlyCost, 'ILS')}
+              </div>
+              <div className="text-sm text-gray-600">Monthly Cost</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                +{employerCost.costPercentage.toFixed(1)}%
+              </div>
+              <div className="text-sm text-gray-600">Above Salary</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Cost Lines by Category */}
+        {CATEGORIES.map((category) => {
+          const lines = employerCost.lines.filter(line => line.category === category.id);
+          if (lines.length === 0) return null;
+
+          const categoryTotal = lines.reduce((sum, line) => sum + line.annualCost, 0);
+
+          return (
+            <div key={category.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium text-gray-900 flex items-center">
+                  <span className="mr-2">{category.icon}</span>
+                  {category.title}
+                </h4>
+                <span className="font-semibold">{formatCurrency(categoryTotal, 'ILS')}</span>
+              </div>
+              <div className="space-y-1 text-sm">
+                {lines.map((line) => (
+                  <div key={line.label} className="flex justify-between">
+                    <span className="text-gray-700">
+                      {line.label}
+                      <span className="text-xs text-gray-500 ml-2">{line.assumption}</span>
+                    </span>
+                    <span className="font-medium">{formatCurrency(line.annualCost, 'ILS')}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-sm text-yellow-800">
+            💡 Compare with the employee view: the employee takes home {formatCurrency(calculation.netCompensation, 'ILS')} of
+            the {formatCurrency(employerCost.totalCost, 'ILS')} the employer spends.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
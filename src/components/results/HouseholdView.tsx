@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useCompensationCalculation } from '@/hooks/useCompensationCalculation';
+import { useCompensation } from '@/contexts/CompensationContext';
+import { HouseholdCalculator } from '@/utils/household-calculator';
+
+export default function HouseholdView() {
+  const { calculation, formatCurrency } = useCompensationCalculation();
+  const { state } = useCompensation();
+  const [offerId, setOfferId] = useState<string>('');
+
+  if (!calculation || !calculation.household) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">🏠 Household</h3>
+        <div className="text-center py-8">
+          <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+            <span className="text-2xl">🏠</span>
+          </div>
+          <p className="text-gray-600 mb-2">No household calculation available</p>
+          <p className="text-sm text-gray-500">Add a partner in the Tax tab and run a calculation to see household take-home</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { household } = calculation;
+  const offers = state.savedPackages.filter(pkg => pkg.calculations && pkg.id !== state.currentPackage.id);
+  const selectedOffer = offers.find(pkg => pkg.id === offerId);
+  const comparison = selectedOffer?.calculations && HouseholdCalculator.compareOffer(household, selectedOffer.calculations);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">🏠 Household Take-Home</h3>
+
+      <div className="space-y-4">
+        {/* Summary */}
+        <div className="bg-gradient-to-r from-teal-50 to-emerald-50 rounded-lg p-4 border border-teal-200">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {formatCurrency(household.totalGrossIncome, 'ILS')}
+              </div>
+              <div className="text-sm text-gray-600">Household Gross</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-teal-900">
+                {formatCurrency(household.totalTakeHome, 'ILS')}
+              </div>
+              <div className="text-sm text-gray-600">Household Take-Home</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {formatCurrency(household.childCreditValue, 'ILS')}
+              </div>
+              <div className="text-sm text-gray-600">Child Credits</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Earners */}
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-gray-600">
+              <th className="text-left py-2 px-2">Earner</th>
+              <th className="text-right py-2 px-2">Gross</th>
+              <th className="text-right py-2 px-2">Credit Points</th>
+              <th className="text-right py-2 px-2">Child Credits</th>
+              <th className="text-right py-2 px-2">Take-Home</th>
+            </tr>
+          </thead>
+          <tbody>
+            {household.earners.map((earner) => (
+              <tr key={earner.role} className="border-b">
+                <td className="py-2 px-2 font-medium">{earner.role === 'self' ? 'You' : 'Partner'}</td>
+                <td className="py-2 px-2 text-right">{formatCurrency(earner.grossIncome, 'ILS')}</td>
+                <td className="py-2 px-2 text-right">
+                  {earner.creditPoints.totalPoints.toFixed(2)}
+                  {earner.creditPoints.childPoints > 0 && (
+                    <span className="text-xs text-gray-500 ml-1">({earner.creditPoints.childPoints.toFixed(2)} children)</span>
+                  )}
+                </td>
+                <td className="py-2 px-2 text-right">{formatCurrency(earner.childCreditValue, 'ILS')}</td>
+                <td className="py-2 px-2 text-right font-medium">{formatCurrency(earner.takeHome, 'ILS')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Offer Impact */}
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 mb-3">🔄 Offer Impact on the Household</h4>
+          {offers.length === 0 ? (
+            <p className="text-sm text-gray-600">Save and calculate another package to see how it would change household take-home.</p>
+          ) : (
+            <div className="space-y-3">
+              <select
+                value={offerId}
+                onChange={(e) => setOfferId(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select a saved package...</option>
+                {offers.map(pkg => (
+                  <option key={pkg.id} value={pkg.id}>{pkg.name}</option>
+                ))}
+              </select>
+              {comparison && (
+                <div className="grid grid-cols-3 gap-4 text-center text-sm">
+                  <div>
+                    <div className="font-semibold">{formatCurrency(comparison.currentTakeHome, 'ILS')}</div>
+                    <div className="text-gray-600">Current</div>
+                  </div>
+                  <div>
+                    <div className="font-semibold">{formatCurrency(comparison.offerTakeHome, 'ILS')}</div>
+                    <div className="text-gray-600">With {selectedOffer.name}</div>
+                  </div>
+                  <div>
+                    <div className={`font-bold ${comparison.change >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                      {comparison.change >= 0 ? '+' : '-'}{formatCurrency(Math.abs(comparison.change), 'ILS')}
+                    </div>
+                    <div className="text-gray-600">Per Year</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-sm text-yellow-800">
+            💡 Israeli income tax is assessed per earner, so each partner uses their own brackets and credit points.
+            Child credit points go to each working parent by their gender and the child&apos;s age, including the toddler points up to age 5.
+          </p>
+          <p className="text-xs text-yellow-700 mt-2">
+            Not included: the daycare subsidy (means-tested on household income per person, not a tax credit), single-parent and
+            disabled-child credit points, and transferring a non-working parent&apos;s child points to the other partner.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
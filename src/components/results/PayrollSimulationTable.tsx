@@ -0,0 +1,139 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useCompensationCalculation } from '@/hooks/useCompensationCalculation';
+import { useCompensation } from '@/contexts/CompensationContext';
+import { getTaxRules } from '@/constants/tax-rules';
+import { PayrollSimulator } from '@/utils/payroll-simulator';
+import { WithholdingMethod } from '@/types';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export default function PayrollSimulationTable() {
+  const { calculation, formatCurrency } = useCompensationCalculation();
+  const { state } = useCompensation();
+  const [withholdingMethod, setWithholdingMethod] = useState<WithholdingMethod>('cumulative');
+
+  if (!calculation) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">📅 Payroll Simulation</h3>
+        <div className="text-center py-8">
+          <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+            <span className="text-2xl">🗓️</span>
+          </div>
+          <p className="text-gray-600 mb-2">No calculation available</p>
+          <p className="text-sm text-gray-500">Run a calculation to see month-by-month withholding</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Re-run the same months with the selected withholding method - contractors pay fixed advances instead
+  const isSelfEmployed = calculation.employmentType === 'selfEmployed';
+  const simulation = isSelfEmployed || withholdingMethod === calculation.payrollSimulation.withholdingMethod
+    ? calculation.payrollSimulation
+    : PayrollSimulator.simulateYear(
+        calculation.payrollSimulation.months,
+        calculation.taxImplications.creditPoints,
+        withholdingMethod,
+        getTaxRules(calculation.taxYear),
+        state.currentPackage.taxProfile.residenceLocality,
+        state.currentPackage.benefits.pensionFund.employeeContribution / 100
+      );
+
+  const isRefund = simulation.reconciliation >= 0;
+  const hasEquity = simulation.months.some(month => month.equityIncome > 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          📅 {isSelfEmployed ? 'Tax Advances' : 'Payroll Simulation'} ({simulation.taxYear})
+        </h3>
+        {!isSelfEmployed && (
+          <select
+            value={withholdingMethod}
+            onChange={(e) => setWithholdingMethod(e.target.value as WithholdingMethod)}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="cumulative">Cumulative withholding (te&apos;um mas)</option>
+            <option value="monthly">Monthly withholding</option>
+          </select>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-gray-600">
+              <th className="text-left py-2 px-2">Month</th>
+              <th className="text-right py-2 px-2">Gross</th>
+              <th className="text-right py-2 px-2">Bonus</th>
+              {hasEquity && <th className="text-right py-2 px-2">RSU Vest</th>}
+              <th className="text-right py-2 px-2">Income Tax</th>
+              <th className="text-right py-2 px-2">BL + Health</th>
+              <th className="text-right py-2 px-2">Pension + Fund</th>
+              <th className="text-right py-2 px-2">Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {simulation.months.map((month) => (
+              <tr
+                key={month.month}
+                className={`border-b ${month.bonus > 0 || month.equityIncome > 0 ? 'bg-yellow-50' : ''}`}
+              >
+                <td className="py-2 px-2 font-medium">{MONTH_NAMES[month.month - 1]}</td>
+                <td className="py-2 px-2 text-right">{formatCurrency(month.grossSalary, 'ILS')}</td>
+                <td className="py-2 px-2 text-right">{month.bonus > 0 ? formatCurrency(month.bonus, 'ILS') : '—'}</td>
+                {hasEquity && (
+                  <td className="py-2 px-2 text-right">{month.equityIncome > 0 ? formatCurrency(month.equityIncome, 'ILS') : '—'}</td>
+                )}
+                <td className="py-2 px-2 text-right">{formatCurrency(month.incomeTaxWithheld + month.surtaxWithheld, 'ILS')}</td>
+                <td className="py-2 px-2 text-right">{formatCurrency(month.bituachLeumi + month.healthTax, 'ILS')}</td>
+                <td className="py-2 px-2 text-right">{formatCurrency(month.pensionContributions + month.studyFundContributions, 'ILS')}</td>
+                <td className="py-2 px-2 text-right font-medium">{formatCurrency(month.netSalary, 'ILS')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Annual Reconciliation */}
+      <div className="mt-6 bg-gray-50 border border-gray-200 rounded-lg p-4">
+        <h4 className="font-medium text-gray-900 mb-3">🧾 Annual Reconciliation</h4>
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span>Annual Gross:</span>
+              <span className="font-medium">{formatCurrency(simulation.annualGross, 'ILS')}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Withheld (income tax + surtax):</span>
+              <span className="font-medium">{formatCurrency(simulation.totalWithheld, 'ILS')}</span>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span>Annual Liability:</span>
+              <span className="font-medium">{formatCurrency(simulation.annualLiability, 'ILS')}</span>
+            </div>
+            <div className="flex justify-between border-t pt-2">
+              <span className="font-medium">{isRefund ? 'Expected Refund:' : 'Expected Shortfall:'}</span>
+              <span className={`font-bold ${isRefund ? 'text-green-700' : 'text-red-700'}`}>
+                {formatCurrency(Math.abs(simulation.reconciliation), 'ILS')}
+              </span>
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-600 mt-3">
+          {isSelfEmployed
+            ? 'Contractors pay income tax and Bituach Leumi as monthly advances (mikdamot), assumed here to match the annual liability.'
+            : withholdingMethod === 'monthly'
+              ? 'Monthly withholding taxes bonus and vest months as if they repeated all year, so they are usually over-withheld.'
+              : 'Cumulative withholding (te\'um mas) taxes year-to-date income against year-to-date brackets, so it settles by December.'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,62 +1,4 @@
-import { IsraeliTaxBrackets } from '@/types';
-
-// Israeli Income Tax Brackets for 2024 (in ILS monthly)
-export const ISRAELI_TAX_BRACKETS_2024: IsraeliTaxBrackets = {
-  year: 2024,
-  currency: 'ILS',
-  brackets: [
-    { min: 0, max: 7010, rate: 0.10 },          // 10%
-    { min: 7010, max: 10060, rate: 0.14 },       // 14%
-    { min: 10060, max: 16150, rate: 0.20 },      // 20%
-    { min: 16150, max: 21240, rate: 0.31 },      // 31%
-    { min: 21240, max: 42480, rate: 0.35 },      // 35%
-    { min: 42480, max: 54130, rate: 0.47 },      // 47%
-    { min: 54130, max: Infinity, rate: 0.50 }    // 50%
-  ]
-};
-
-// Social Security (Bituach Leumi) rates and ceilings
-export const BITUACH_LEUMI_2024 = {
-  rate: 0.04, // 4%
-  monthlyCeiling: 47220, // ILS - maximum monthly salary subject to Bituach Leumi
-  minimumWage: 5880, // ILS monthly minimum wage
-  maxMonthlyContribution: 1888.8 // 4% of ceiling
-};
-
-// Pension fund mandatory rates
-export const PENSION_RATES_2024 = {
-  employee: {
-    rate: 0.06, // 6% employee contribution
-    minContribution: 0.06,
-    maxContribution: 0.07 // can contribute up to 7%
-  },
-  employer: {
-    rate: 0.06, // 6% employer contribution (mandatory)
-    minContribution: 0.06
-  },
-  maxMonthlySalaryForPension: 42480, // ILS - pension calculated up to this amount
-  maxAnnualSalaryForPension: 509760 // ILS - annual limit
-};
-
-// Study Fund (Keren Hishtalmut) rates
-export const STUDY_FUND_RATES_2024 = {
-  employee: {
-    rate: 0.025 // 2.5% employee contribution
-  },
-  employer: {
-    rate: 0.075 // 7.5% employer contribution
-  },
-  maxMonthlySalaryForStudyFund: 33500, // ILS
-  maxAnnualSalaryForStudyFund: 402000 // ILS
-};
-
-// Capital gains tax rates
-export const CAPITAL_GAINS_TAX_2024 = {
-  rate: 0.25, // 25% on most capital gains
-  alternativeRate: 0.30, // 30% alternative rate for certain cases
-  exemptionThreshold: 680000, // ILS annual exemption for individuals
-  longTermHoldingPeriod: 24 // months to qualify for long-term treatment
-};
+import { OptionPricingInputs, PerkKey, PerkTaxTreatment, PriceSimulationInputs } from '@/types';
 
 // Health insurance typical costs (approximate market rates)
 export const HEALTH_INSURANCE_2024 = {
@@ -78,6 +20,41 @@ export const VACATION_VALUATION_2024 = {
   valuationMethod: 'daily_rate' // how to calculate vacation day value
 };
 
+// Standard full-time working hours, used to convert hourly rates
+export const WORKING_HOURS_2024 = {
+  fullTimeMonthlyHours: 182 // 42-hour week
+};
+
+// Employer-side costs beyond salary and tax contributions
+export const EMPLOYER_COSTS_2024 = {
+  disabilityInsuranceRate: 0.02 // loss of work capacity insurance (ovdan kosher avoda) bought on top of the pension
+};
+
+// Default tax treatment of each perk - cash stipends and vouchers are salary, work tools and training are not income
+export const DEFAULT_PERK_TAX_TREATMENT: { [perk in PerkKey]: PerkTaxTreatment } = {
+  laptop: 'exempt',
+  internetStipend: 'taxable',
+  phoneStipend: 'taxable',
+  gymMembership: 'taxable',
+  meals: 'taxable',
+  transportation: 'taxable',
+  companyCar: 'taxable',
+  learningBudget: 'exempt',
+  flexibleWork: 'exempt'
+};
+
+export const PERK_LABELS: { [perk in PerkKey]: string } = {
+  laptop: 'Laptop',
+  internetStipend: 'Internet stipend',
+  phoneStipend: 'Phone stipend',
+  gymMembership: 'Gym membership',
+  meals: 'Meals',
+  transportation: 'Transportation',
+  companyCar: 'Company car',
+  learningBudget: 'Learning budget',
+  flexibleWork: 'Flexible work'
+};
+
 // Common Israeli tech industry benchmarks (monthly ILS)
 export const TECH_SALARY_BENCHMARKS_2024 = {
   juniorDeveloper: {
@@ -133,20 +110,45 @@ export const TECH_PERKS_BENCHMARKS_2024 = {
     typical: 300, // ILS monthly
     centralLocation: 500
   },
+  companyCar: {
+    listPrice: 200000, // ILS typical leased car for senior employees
+    monthlyFuelValue: 800 // ILS monthly fuel card usage
+  },
   learningBudget: {
     typical: 5000, // ILS annual
     generous: 10000
   }
 };
 
-// Tax calculation helpers
-export const TAX_POINTS_2024 = {
-  singlePersonTaxPoints: 2.25, // standard tax points for single person
-  marriedPersonTaxPoints: 3.5, // standard tax points for married person
-  childTaxPoints: 1.0, // additional tax points per child
-  taxPointValue: 245 // ILS value per tax point monthly
+// Option pricing assumptions for new grants - simplified-method term for a 4-year grant with a 10-year life
+export const DEFAULT_OPTION_PRICING: OptionPricingInputs = {
+  model: 'black-scholes',
+  volatility: 60, // % - typical for venture-backed tech companies
+  riskFreeRate: 4.5, // % - US Treasury yield matching the term
+  expectedTermYears: 6.25,
+  dividendYield: 0
+};
+
+export const OPTION_PRICING_MODEL_LABELS: { [model in OptionPricingInputs['model']]: string } = {
+  'intrinsic': 'Intrinsic value',
+  'black-scholes': 'Black-Scholes',
+  'binomial': 'Binomial (early exercise)'
 };
 
+// Share price simulation for public company RSUs - long-run equity return and large-cap tech volatility
+export const DEFAULT_PRICE_SIMULATION: PriceSimulationInputs = {
+  expectedReturn: 8, // % per year
+  volatility: 35, // % per year
+  paths: 1000,
+  seed: 42
+};
+
+// Upper bound on simulated paths - the simulation reruns in the browser on every edit
+export const PRICE_SIMULATION_MAX_PATHS = 10000;
+
+// Annual rate exit proceeds are discounted at to today's value - the scenario probabilities already carry the risk of failure
+export const EXIT_SCENARIO_DISCOUNT_RATE = 0.1;
+
 // Exchange rate fallback (if API fails)
 export const FALLBACK_EXCHANGE_RATE = {
   usdToIls: 3.7, // approximate rate
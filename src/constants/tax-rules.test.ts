@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TAX_YEAR, getTaxRules, SUPPORTED_TAX_YEARS, TAX_RULES_2024, TAX_RULES_2025, TAX_RULES_2026 } from './tax-rules';
+import { TaxCalculator } from '@/utils/tax-calculator';
+
+describe('getTaxRules', () => {
+  it('returns the rules registered for each supported year', () => {
+    expect(SUPPORTED_TAX_YEARS).toEqual([2024, 2025, 2026]);
+    expect(getTaxRules(2024)).toBe(TAX_RULES_2024);
+    expect(getTaxRules(2025)).toBe(TAX_RULES_2025);
+    expect(getTaxRules()).toBe(getTaxRules(DEFAULT_TAX_YEAR));
+  });
+
+  it('falls back to the closest supported year', () => {
+    expect(getTaxRules(2019)).toBe(TAX_RULES_2024);
+    expect(getTaxRules(2031)).toBe(TAX_RULES_2026);
+  });
+
+  it('changes the calculation with the tax year', () => {
+    expect(TaxCalculator.calculateBituachLeumi(5000, TAX_RULES_2024).employee).toBeCloseTo(5000 * 0.004);
+    expect(TaxCalculator.calculateBituachLeumi(5000, TAX_RULES_2025).employee).toBeCloseTo(5000 * 0.0104);
+  });
+});
@@ -0,0 +1,289 @@
+import { TaxRules } from '@/types';
+
+// Israeli tax rules for 2024 (monthly ILS unless noted)
+export const TAX_RULES_2024: TaxRules = {
+  year: 2024,
+  incomeTaxBrackets: [
+    { min: 0, max: 7010, rate: 0.10 },          // 10%
+    { min: 7010, max: 10060, rate: 0.14 },       // 14%
+    { min: 10060, max: 16150, rate: 0.20 },      // 20%
+    { min: 16150, max: 21240, rate: 0.31 },      // 31%
+    { min: 21240, max: 42480, rate: 0.35 },      // 35%
+    { min: 42480, max: 54130, rate: 0.47 },      // 47%
+    { min: 54130, max: Infinity, rate: 0.50 }    // 50%
+  ],
+
+  // Social Security (Bituach Leumi) two-tier rates and ceilings
+  bituachLeumi: {
+    reducedRateThreshold: 7522, // 60% of the average wage
+    monthlyCeiling: 47220, // maximum monthly salary subject to Bituach Leumi
+    minimumWage: 5880,
+    employee: {
+      reducedRate: 0.004, // 0.4% up to the threshold
+      fullRate: 0.07 // 7% from the threshold up to the ceiling
+    },
+    employer: {
+      reducedRate: 0.0355, // 3.55% up to the threshold
+      fullRate: 0.076 // 7.6% from the threshold up to the ceiling
+    }
+  },
+
+  // Health tax (Mas Briut) - collected by Bituach Leumi, employee only
+  healthTax: {
+    reducedRateThreshold: 7522,
+    monthlyCeiling: 47220,
+    reducedRate: 0.031, // 3.1% up to 60% of the average wage
+    fullRate: 0.05 // 5% from 60% of the average wage up to the ceiling
+  },
+
+  // Pension fund mandatory rates
+  pension: {
+    employee: {
+      rate: 0.06, // 6% employee contribution
+      minContribution: 0.06,
+      maxContribution: 0.07 // can contribute up to 7%
+    },
+    employer: {
+      rate: 0.06, // 6% employer contribution (mandatory)
+      minContribution: 0.06,
+      maxExemptRate: 0.075 // exempt up to 7.5% of salary up to the pension ceiling
+    },
+    maxMonthlySalaryForPension: 42480, // pension calculated up to this amount
+    maxAnnualSalaryForPension: 509760, // annual limit
+    // Tax relief on the employee's own contributions
+    taxBenefit: {
+      creditRate: 0.35, // 35% credit (Section 45a)
+      creditContributionRate: 0.07, // on contributions up to 7% of insured salary
+      insuredSalaryCeiling: 9700, // monthly insured salary ceiling for the credit
+      deductionContributionRate: 0.05 // top-ups above the mandatory rate deductible up to 5% of salary (Section 47)
+    }
+  },
+
+  // Study Fund (Keren Hishtalmut) rates
+  studyFund: {
+    employee: {
+      rate: 0.025 // 2.5% employee contribution
+    },
+    employer: {
+      rate: 0.075, // 7.5% employer contribution
+      maxExemptRate: 0.075 // exempt up to 7.5% of salary up to the study fund ceiling
+    },
+    maxMonthlySalaryForStudyFund: 33500,
+    maxAnnualSalaryForStudyFund: 402000
+  },
+
+  // Severance pay (pitzuim)
+  severance: {
+    fullRate: 0.0833, // one month's salary per year of service
+    exemptionPerYearOfService: 13750 // tax-exempt severance per year of service
+  },
+
+  // Credit point (nekudot zikui) value and eligibility rules
+  creditPoints: {
+    pointValue: 245, // ILS value per credit point monthly
+    resident: 2.25, // every Israeli resident
+    woman: 0.5, // additional half point for women
+    // Points per child by the child's age during the tax year (0 = birth year)
+    childrenByAge: {
+      mother: [
+        { minAge: 0, maxAge: 0, points: 1.5 },
+        { minAge: 1, maxAge: 5, points: 2.5 },
+        { minAge: 6, maxAge: 17, points: 1 },
+        { minAge: 18, maxAge: 18, points: 0.5 }
+      ],
+      father: [
+        { minAge: 0, maxAge: 0, points: 1.5 },
+        { minAge: 1, maxAge: 5, points: 2.5 }
+      ]
+    },
+    // Points per month by the number of months since aliyah
+    newImmigrant: [
+      { fromMonth: 1, toMonth: 18, points: 3 },
+      { fromMonth: 19, toMonth: 30, points: 2 },
+      { fromMonth: 31, toMonth: 42, points: 1 }
+    ],
+    dischargedSoldier: {
+      benefitMonths: 36, // months after discharge
+      minServiceMonths: 12,
+      fullServiceMonths: 22,
+      fullServicePoints: 2,
+      partialServicePoints: 1
+    },
+    // Points for one tax year, in the year after completing the degree
+    academicDegree: {
+      bachelor: 1,
+      master: 0.5,
+      phd: 0.5
+    }
+  },
+
+  // High-income surtax (mas yesef) - applied to annual income
+  surtax: {
+    annualThreshold: 721560,
+    rate: 0.03, // 3% on income above the threshold
+    capitalIncomeRate: 0 // no additional rate on capital income before 2025
+  },
+
+  // Capital gains tax rates
+  capitalGains: {
+    rate: 0.25, // 25% on most capital gains
+    alternativeRate: 0.30 // 30% alternative rate for certain cases
+  },
+
+  // Section 102 trustee grants - minimum months from grant until sale
+  section102: {
+    capitalTrackTrusteeMonths: 24, // gain above the grant-date value taxed as capital gains
+    ordinaryTrackTrusteeMonths: 12 // whole gain taxed as income, without Bituach Leumi
+  },
+
+  // Recuperation pay (dmei havra'a) - paid once a year by year of service
+  recuperationPay: {
+    dailyRate: 418, // private sector daily rate
+    daysBySeniority: [
+      { fromYear: 1, toYear: 1, days: 5 },
+      { fromYear: 2, toYear: 3, days: 6 },
+      { fromYear: 4, toYear: 10, days: 7 },
+      { fromYear: 11, toYear: 15, days: 8 },
+      { fromYear: 16, toYear: 19, days: 9 },
+      { fromYear: 20, toYear: Infinity, days: 10 }
+    ]
+  },
+
+  // Holiday gifts (Rosh Hashana, Passover) - tax-exempt up to a value per gift
+  holidayGifts: {
+    exemptThresholdPerGift: 230
+  },
+
+  // Company car benefit (shovi shimush) - monthly taxable value of a car the employer provides
+  carBenefit: {
+    listPriceRate: 0.0248, // 2.48% of the list price per month
+    maxListPrice: 596860,
+    priceGroupListPrices: [110000, 140000, 175000, 215000, 270000, 350000, 450000],
+    monthlyReductions: {
+      gasoline: 0,
+      hybrid: 560,
+      plugInHybrid: 1090,
+      electric: 1310
+    }
+  },
+
+  // Residence benefit localities - a credit of a share of income up to a ceiling
+  residenceLocalities: [
+    { id: 'eilat', name: 'Eilat', program: 'eilat', rate: 0.10, annualIncomeCeiling: 276840 },
+    { id: 'sderot', name: 'Sderot', program: 'periphery', rate: 0.20, annualIncomeCeiling: 246240 },
+    { id: 'metula', name: 'Metula', program: 'periphery', rate: 0.18, annualIncomeCeiling: 246240 },
+    { id: 'yeruham', name: 'Yeruham', program: 'periphery', rate: 0.18, annualIncomeCeiling: 246240 },
+    { id: 'mitzpe-ramon', name: 'Mitzpe Ramon', program: 'periphery', rate: 0.18, annualIncomeCeiling: 246240 },
+    { id: 'kiryat-shmona', name: 'Kiryat Shmona', program: 'periphery', rate: 0.12, annualIncomeCeiling: 246240 },
+    { id: 'dimona', name: 'Dimona', program: 'periphery', rate: 0.12, annualIncomeCeiling: 246240 },
+    { id: 'netivot', name: 'Netivot', program: 'periphery', rate: 0.12, annualIncomeCeiling: 246240 },
+    { id: 'maalot-tarshiha', name: 'Ma\'alot-Tarshiha', program: 'periphery', rate: 0.12, annualIncomeCeiling: 246240 },
+    { id: 'katzrin', name: 'Katzrin', program: 'periphery', rate: 0.12, annualIncomeCeiling: 246240 },
+    { id: 'beit-shean', name: 'Beit She\'an', program: 'periphery', rate: 0.10, annualIncomeCeiling: 246240 },
+    { id: 'tzfat', name: 'Tzfat', program: 'periphery', rate: 0.07, annualIncomeCeiling: 246240 }
+  ],
+
+  // Value added tax (ma'am)
+  vat: {
+    rate: 0.17,
+    exemptDealerTurnoverCeiling: 120000 // osek patur annual turnover ceiling
+  },
+
+  // Self-employed (atzmai) contributions and deposits
+  selfEmployed: {
+    bituachLeumi: {
+      reducedRate: 0.0287, // 2.87% up to the threshold
+      fullRate: 0.1283 // 12.83% from the threshold up to the ceiling
+    },
+    bituachLeumiDeductibleShare: 0.52, // 52% of Bituach Leumi is deductible as an expense
+    mandatoryPension: {
+      reducedRateThreshold: 6268, // half the average wage
+      monthlyCeiling: 12536, // the average wage
+      reducedRate: 0.0445, // 4.45% up to half the average wage
+      fullRate: 0.1255 // 12.55% from half the average wage up to the average wage
+    },
+    pension: {
+      deductionRate: 0.11, // Section 47 deduction
+      creditContributionRate: 0.055, // Section 45a credit
+      annualIncomeCeiling: 232800
+    },
+    studyFund: {
+      deductionRate: 0.045, // deductible up to 4.5% of business income
+      annualIncomeCeiling: 293397
+    }
+  },
+
+  // Personal company (chevra ba'am) owned by the contractor
+  personalCompany: {
+    corporateTaxRate: 0.23,
+    dividendTaxRate: 0.30 // controlling shareholder rate
+  }
+};
+
+// 2025 - brackets, surtax threshold and credit point value frozen at 2024 levels, higher Bituach Leumi and health tax rates
+export const TAX_RULES_2025: TaxRules = {
+  ...TAX_RULES_2024,
+  year: 2025,
+  bituachLeumi: {
+    reducedRateThreshold: 7522,
+    monthlyCeiling: 50695,
+    minimumWage: 6248,
+    employee: {
+      reducedRate: 0.0104, // 1.04% up to the threshold
+      fullRate: 0.07
+    },
+    employer: {
+      reducedRate: 0.0451, // 4.51% up to the threshold
+      fullRate: 0.076
+    }
+  },
+  healthTax: {
+    reducedRateThreshold: 7522,
+    monthlyCeiling: 50695,
+    reducedRate: 0.0323, // 3.23% up to 60% of the average wage
+    fullRate: 0.0517 // 5.17% from 60% of the average wage up to the ceiling
+  },
+  surtax: {
+    annualThreshold: 721560,
+    rate: 0.03,
+    capitalIncomeRate: 0.02 // additional 2% on capital income above the threshold
+  },
+  vat: {
+    rate: 0.18, // raised from 17% in January 2025
+    exemptDealerTurnoverCeiling: 120000
+  },
+  selfEmployed: {
+    ...TAX_RULES_2024.selfEmployed,
+    bituachLeumi: {
+      reducedRate: 0.0447, // 4.47% up to the threshold
+      fullRate: 0.1283
+    }
+  }
+};
+
+// 2026 - carries the 2025 figures forward until the official 2026 updates are published
+export const TAX_RULES_2026: TaxRules = {
+  ...TAX_RULES_2025,
+  year: 2026
+};
+
+// Registry of supported tax years
+export const TAX_RULES_BY_YEAR: { [year: number]: TaxRules } = {
+  2024: TAX_RULES_2024,
+  2025: TAX_RULES_2025,
+  2026: TAX_RULES_2026
+};
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TAX_RULES_BY_YEAR).map(Number).sort((a, b) => a - b);
+
+export const DEFAULT_TAX_YEAR = 2025;
+
+// Look up the rules for a tax year, falling back to the closest supported year
+export const getTaxRules = (year: number = DEFAULT_TAX_YEAR): TaxRules => {
+  if (TAX_RULES_BY_YEAR[year]) return TAX_RULES_BY_YEAR[year];
+
+  const closestYear = year < SUPPORTED_TAX_YEARS[0]
+    ? SUPPORTED_TAX_YEARS[0]
+    : SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1];
+  return TAX_RULES_BY_YEAR[closestYear];
+};
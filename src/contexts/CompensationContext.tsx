@@ -1,8 +1,10 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { CompensationPackage, CompensationCalculation, LoadingState, ErrorState } from '@/types';
+import { CompensationPackage, CompensationCalculation, LoadingState, ErrorState, BenefitsData, EmploymentType, SelfEmployedData, HouseholdData } from '@/types';
 import { CompensationCalculator } from '@/utils/compensation-calculator';
+import { CreditPointsCalculator } from '@/utils/credit-points-calculator';
+import { DEFAULT_TAX_YEAR } from '@/constants/tax-rules';
 
 // State interface
 interface CompensationState {
@@ -20,6 +22,11 @@ type CompensationAction =
   | { type: 'UPDATE_BENEFITS'; payload: Partial<CompensationPackage['benefits']> }
   | { type: 'UPDATE_EQUITY'; payload: Partial<CompensationPackage['equity']> }
   | { type: 'UPDATE_PERKS'; payload: Partial<CompensationPackage['perks']> }
+  | { type: 'UPDATE_TAX_PROFILE'; payload: Partial<CompensationPackage['taxProfile']> }
+  | { type: 'SET_TAX_YEAR'; payload: number }
+  | { type: 'SET_EMPLOYMENT_TYPE'; payload: EmploymentType }
+  | { type: 'UPDATE_SELF_EMPLOYED'; payload: Partial<SelfEmployedData> }
+  | { type: 'SET_HOUSEHOLD'; payload: HouseholdData | undefined }
   | { type: 'SET_CALCULATION'; payload: CompensationCalculation }
   | { type: 'SET_LOADING'; payload: LoadingState }
   | { type: 'SET_ERROR'; payload: ErrorState }
@@ -29,6 +36,21 @@ type CompensationAction =
   | { type: 'CLEAR_ERROR' };
 
 // Default compensation package
+// Full Section 14 severance deposits are the norm in Israeli tech contracts
+const DEFAULT_SEVERANCE: BenefitsData['severance'] = {
+  employerContribution: 8.33,
+  section14: true,
+  expectedTenureYears: 3
+};
+
+// Contractors typically register as osek murshe and fund the mandatory pension plus a deductible study fund
+const DEFAULT_SELF_EMPLOYED: SelfEmployedData = {
+  dealerType: 'murshe',
+  monthlyExpenses: 0,
+  pensionRate: 16.5,
+  studyFundRate: 4.5
+};
+
 const createDefaultPackage = (): CompensationPackage => ({
   id: `package-${Date.now()}`,
   name: 'My Compensation Package',
@@ -48,6 +70,7 @@ const createDefaultPackage = (): CompensationPackage => ({
       employeeContribution: 2.5,
       employerContribution: 7.5
     },
+    severance: { ...DEFAULT_SEVERANCE },
     healthInsurance: {
       coverage: 'basic',
       employerContribution: 150
@@ -77,7 +100,11 @@ const createDefaultPackage = (): CompensationPackage => ({
       remoteAllowed: true,
       hybridDays: 3
     }
-  }
+  },
+  taxProfile: CreditPointsCalculator.createDefaultProfile(),
+  taxYear: DEFAULT_TAX_YEAR,
+  employmentType: 'employee',
+  selfEmployed: { ...DEFAULT_SELF_EMPLOYED }
 });
 
 // Initial state
@@ -138,6 +165,56 @@ function compensationReducer(state: CompensationState, action: CompensationActio
         }
       };
     
+    case 'UPDATE_TAX_PROFILE':
+      return {
+        ...state,
+        currentPackage: {
+          ...state.currentPackage,
+          taxProfile: { ...state.currentPackage.taxProfile, ...action.payload },
+          updatedAt: new Date()
+        }
+      };
+    
+    case 'SET_TAX_YEAR':
+      return {
+        ...state,
+        currentPackage: {
+          ...state.currentPackage,
+          taxYear: action.payload,
+          updatedAt: new Date()
+        }
+      };
+    
+    case 'SET_EMPLOYMENT_TYPE':
+      return {
+        ...state,
+        currentPackage: {
+          ...state.currentPackage,
+          employmentType: action.payload,
+          updatedAt: new Date()
+        }
+      };
+    
+    case 'UPDATE_SELF_EMPLOYED':
+      return {
+        ...state,
+        currentPackage: {
+          ...state.currentPackage,
+          selfEmployed: { ...state.currentPackage.selfEmployed, ...action.payload },
+          updatedAt: new Date()
+        }
+      };
+    
+    case 'SET_HOUSEHOLD':
+      return {
+        ...state,
+        currentPackage: {
+          ...state.currentPackage,
+          household: action.payload,
+          updatedAt: new Date()
+        }
+      };
+    
     case 'SET_CALCULATION':
       return {
         ...state,
@@ -200,6 +277,7 @@ const CompensationContext = createContext<{
   loadPackage: (packageId: string) => void;
   createNewPackage: () => void;
   updatePackageName: (name: string) => void;
+  updateTaxYear: (taxYear: number) => void;
 } | undefined>(undefined);
 
 // Provider component
@@ -215,6 +293,12 @@ export function CompensationProvider({ children }: { children: ReactNode }) {
         // Convert date strings back to Date objects
         const parsedPackages = packages.map((pkg: CompensationPackage) => ({
           ...pkg,
+          // Packages saved before tax profiles existed fall back to the default profile
+          taxProfile: pkg.taxProfile || CreditPointsCalculator.createDefaultProfile(),
+          taxYear: pkg.taxYear || DEFAULT_TAX_YEAR,
+          employmentType: pkg.employmentType || 'employee',
+          selfEmployed: pkg.selfEmployed || { ...DEFAULT_SELF_EMPLOYED },
+          benefits: { ...pkg.benefits, severance: pkg.benefits.severance || { ...DEFAULT_SEVERANCE } },
           createdAt: new Date(pkg.createdAt),
           updatedAt: new Date(pkg.updatedAt)
         }));
@@ -294,6 +378,11 @@ export function CompensationProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  // Update tax year
+  const updateTaxYear = (taxYear: number) => {
+    dispatch({ type: 'SET_TAX_YEAR', payload: taxYear });
+  };
+
   return (
     <CompensationContext.Provider value={{
       state,
@@ -302,7 +391,8 @@ export function CompensationProvider({ children }: { children: ReactNode }) {
       saveCurrentPackage,
       loadPackage,
       createNewPackage,
-      updatePackageName
+      updatePackageName,
+      updateTaxYear
     }}>
       {children}
     </CompensationContext.Provider>
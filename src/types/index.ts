@@ -10,6 +10,11 @@ export interface CompensationPackage {
   benefits: BenefitsData;
   equity: EquityData;
   perks: PerksData;
+  taxProfile: TaxProfile;
+  taxYear: number;
+  employmentType: EmploymentType;
+  selfEmployed: SelfEmployedData; // used when working as a contractor
+  household?: HouseholdData; // two-earner household, assessed per partner
   
   // Calculated values
   calculations?: CompensationCalculation;
@@ -17,24 +22,38 @@ export interface CompensationPackage {
 }
 
 export interface SalaryData {
-  baseSalary: number;
+  baseSalary: number; // hourly rate in hourly mode, invoiced fee before VAT for contractors
   currency: 'ILS' | 'USD';
-  frequency: 'monthly' | 'annual';
+  frequency: 'monthly' | 'annual' | 'hourly';
+  hoursPerMonth?: number; // hourly mode, defaults to the full-time standard
+  globalOvertime?: number; // monthly global overtime (sh'ot nosafot globaliot), outside the pension and severance base
   bonus?: {
     amount: number;
     frequency: 'quarterly' | 'annual';
     guaranteed: boolean;
   };
+  seniorityYears?: number; // year of service with the employer, drives recuperation pay (defaults to the first year)
+  holidayGifts?: {
+    roshHashana: number; // ILS gift value
+    passover: number;
+  };
 }
 
 export interface BenefitsData {
   pensionFund: {
     employeeContribution: number; // % (default 6%)
     employerContribution: number; // % (default 6%)
+    onFullSalary?: boolean; // employer contributes above the pension salary ceiling
   };
   studyFund: {
     employeeContribution: number; // % (default 2.5%)
     employerContribution: number; // % (default 7.5%)
+    onFullSalary?: boolean; // employer contributes above the study fund salary ceiling
+  };
+  severance: {
+    employerContribution: number; // % of salary (6% or 8.33%)
+    section14: boolean; // deposits belong to the employee even on resignation
+    expectedTenureYears: number;
   };
   healthInsurance: {
     coverage: 'basic' | 'premium' | 'none';
@@ -60,6 +79,139 @@ export interface EquityGrant {
   currentStockPrice?: number;
   companyValuation?: number; // for private companies
   companyStage?: 'startup' | 'growth' | 'public' | 'pre-ipo';
+  taxTrack?: EquityTaxTrack; // defaults to the Section 102 capital gains track
+  grantDatePrice?: number; // listed companies only - share price at grant, taxed as income under the 102 capital track
+  holdingMonthsAtSale?: number; // months from grant to sale, defaults to the end of the trustee period
+  optionPricing?: OptionPricingInputs; // options only - defaults to intrinsic value
+  capTable?: CapTable; // private companies - common share value comes from the exit waterfall
+  dilution?: DilutionPlan; // expected future funding rounds
+  exitScenarios?: ExitScenario[]; // private companies - replaces the stage-based risk discount
+  priceSimulation?: PriceSimulationInputs; // public company RSUs - future vests priced by simulation
+}
+
+export type EquityTaxTrack = 'section102-capital' | 'section102-ordinary' | 'section3i' | 'non-israeli';
+
+export interface PreferredRound {
+  id: string;
+  name: string; // e.g. Series A
+  shares: number; // as-converted common shares
+  investment: number; // USD
+  liquidationMultiple: number; // e.g. 1 for a 1x preference
+  participating: boolean;
+  participationCap?: number; // participating only - total return cap as a multiple of investment
+  seniority: number; // higher is paid first, equal ranks share pro rata
+}
+
+export interface CapTable {
+  commonShares: number; // common and option pool, fully diluted
+  preferredRounds: PreferredRound[];
+  exitValue: number; // USD
+}
+
+export interface WaterfallPayout {
+  roundId: string;
+  name: string;
+  converted: boolean;
+  preference: number;
+  participation: number;
+  total: number;
+}
+
+export interface WaterfallResult {
+  exitValue: number;
+  payouts: WaterfallPayout[];
+  commonProceeds: number; // to the common shares
+  commonPerShare: number;
+}
+
+export interface FundingRound {
+  id: string;
+  name: string;
+  monthsFromNow: number;
+  raiseAmount: number; // USD
+  preMoneyValuation: number; // USD
+  optionPoolTopUp: number; // % of post-money fully diluted shares, created before the round
+}
+
+export interface DilutionPlan {
+  fullyDilutedShares: number; // company shares outstanding today
+  rounds: FundingRound[];
+}
+
+export interface DilutionPoint {
+  date: Date;
+  roundName: string;
+  sharesOutstanding: number;
+  ownership: number; // grant's fraction of fully diluted shares
+  sharePrice: number; // USD
+}
+
+export interface ExitScenario {
+  id: string;
+  name: string; // e.g. failure, acqui-hire, IPO
+  probability: number; // %
+  yearsToExit: number;
+  exitValue: number; // USD company value at exit
+}
+
+export interface ExitScenarioOutcome {
+  scenarioId: string;
+  name: string;
+  probability: number; // fraction, normalized across scenarios
+  yearsToExit: number;
+  sharePrice: number; // USD per common share at exit
+  value: number; // USD grant value at exit
+  presentValue: number; // USD grant value at exit discounted back to today
+}
+
+export interface ExitScenarioAnalysis {
+  expectedValue: number; // probability-weighted, in today's value
+  p10: number;
+  p50: number;
+  p90: number;
+  outcomes: ExitScenarioOutcome[];
+}
+
+export interface PriceSimulationInputs {
+  expectedReturn: number; // annual %
+  volatility: number; // annual %
+  paths: number;
+  seed: number;
+  calibratedFrom?: { observations: number; firstPrice: number; lastPrice: number }; // imported price history
+}
+
+export interface PercentileBand {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface SimulatedVestEvent {
+  date: Date;
+  sharesVested: number;
+  value: PercentileBand; // USD
+}
+
+export interface SimulatedVestingYear {
+  year: number;
+  value: PercentileBand; // USD
+}
+
+export interface PriceSimulationResult {
+  events: SimulatedVestEvent[];
+  years: SimulatedVestingYear[];
+}
+
+export type OptionPricingModel = 'intrinsic' | 'black-scholes' | 'binomial';
+
+export interface OptionPricingInputs {
+  model: OptionPricingModel;
+  volatility: number; // annual %
+  riskFreeRate: number; // annual %
+  expectedTermYears: number;
+  dividendYield: number; // annual %
 }
 
 export interface VestingSchedule {
@@ -83,11 +235,119 @@ export interface PerksData {
     value: number; // monthly ILS
   };
   transportation: number; // monthly ILS
+  companyCar?: CompanyCar;
   learningBudget: number; // annual ILS
   flexibleWork: {
     remoteAllowed: boolean;
     hybridDays?: number;
   };
+  taxTreatment?: { [perk in PerkKey]?: PerkTaxTreatment }; // overrides the default treatment per perk
+}
+
+export type PerkKey = 'laptop' | 'internetStipend' | 'phoneStipend' | 'gymMembership' | 'meals' | 'transportation' | 'companyCar' | 'learningBudget' | 'flexibleWork';
+
+// exempt - not income; taxable - added to the employee's taxable income; grossedUp - employer pays the employee's tax on it
+export type PerkTaxTreatment = 'exempt' | 'taxable' | 'grossedUp';
+
+export interface PerkTaxLine {
+  perk: PerkKey;
+  value: number; // annual value to the employee
+  treatment: PerkTaxTreatment;
+  taxableIncome: number; // annual income added for tax, including any gross-up
+  employeeTax: number;
+  employerGrossUp: number;
+}
+
+export type CarFuelType = 'gasoline' | 'hybrid' | 'plugInHybrid' | 'electric';
+
+// Leased company car, taxed through the monthly car benefit (shovi shimush)
+export interface CompanyCar {
+  valuation: 'listPrice' | 'priceGroup';
+  listPrice: number; // ILS manufacturer list price
+  priceGroup: number; // legacy price group 1-7
+  fuelType: CarFuelType;
+  fuelCard: boolean;
+  monthlyFuelValue: number; // ILS paid through the fuel card
+  employeeParticipation: number; // monthly ILS deducted from the employee's salary
+}
+
+// Salaried employee, or a contractor invoicing through an osek murshe / osek patur
+export type EmploymentType = 'employee' | 'selfEmployed';
+
+export type VatDealerType = 'murshe' | 'patur';
+
+export interface SelfEmployedData {
+  dealerType: VatDealerType; // osek murshe charges VAT, osek patur is exempt up to the turnover ceiling
+  monthlyExpenses: number; // recognized business expenses, ILS before VAT
+  pensionRate: number; // % of business income deposited to pension
+  studyFundRate: number; // % of business income deposited to a self-employed study fund
+}
+
+// The same fees earned through a personal company (chevra ba'am) that pays out its profit as a dividend
+export interface PersonalCompanyComparison {
+  companyProfit: number;
+  corporateTax: number;
+  dividend: number;
+  dividendTax: number; // including surtax on the dividend
+  netIncome: number;
+  contractorNetIncome: number; // osek take-home plus the contractor's own pension and study fund deposits
+  assumptions: string[];
+}
+
+// Personal details that determine tax credit points (nekudot zikui)
+export interface TaxProfile {
+  gender: Gender;
+  children: {
+    birthYear: number;
+  }[];
+  newImmigrant?: {
+    arrivalYear: number;
+    arrivalMonth: number; // 1-12
+  };
+  dischargedSoldier?: {
+    dischargeYear: number;
+    dischargeMonth: number; // 1-12
+    serviceMonths: number;
+  };
+  academicDegree?: {
+    level: 'bachelor' | 'master' | 'phd';
+    completionYear: number;
+  };
+  residenceLocality?: string; // id of an eligible locality - the residence benefit is a percentage credit, not credit points
+}
+
+export interface CreditPointsBreakdown {
+  taxYear: number;
+  totalPoints: number;
+  childPoints: number; // share of the total earned through children
+  components: {
+    label: string;
+    points: number;
+  }[];
+}
+
+// Second earner in the household - each partner is assessed separately, children are shared
+export interface HouseholdData {
+  partner: {
+    monthlySalary: number; // gross ILS
+    pensionEmployeeContribution?: number; // % of salary, the statutory employee rate if not set
+    taxProfile: Omit<TaxProfile, 'children' | 'residenceLocality'>; // children and residence are shared
+  };
+}
+
+export interface HouseholdEarner {
+  role: 'self' | 'partner'; // self is the package holder
+  grossIncome: number; // annual ILS
+  takeHome: number; // annual ILS after tax and contributions
+  creditPoints: CreditPointsBreakdown;
+  childCreditValue: number; // annual ILS income tax saved through child credit points
+}
+
+export interface HouseholdSummary {
+  earners: HouseholdEarner[];
+  totalGrossIncome: number;
+  totalTakeHome: number;
+  childCreditValue: number;
 }
 
 // Calculation result types
@@ -100,7 +360,14 @@ export interface CompensationCalculation {
     perks: ComponentBreakdown;
   };
   taxImplications: TaxBreakdown;
+  payrollSimulation: PayrollSimulation; // tax advances (mikdamot) for contractors
+  employerCost: EmployerCostReport; // client cost for contractors
   netCompensation: number;
+  equityExitDistribution?: { p10: number; p50: number; p90: number }; // today's value, ILS, when any grant has exit scenarios
+  employmentType: EmploymentType;
+  household?: HouseholdSummary;
+  personalCompany?: PersonalCompanyComparison; // contractors only
+  taxYear: number;
   exchangeRates: ExchangeRateSnapshot;
   calculatedAt: Date;
 }
@@ -120,15 +387,70 @@ export interface ComponentBreakdown {
 export interface TaxBreakdown {
   incomeTax: number;
   bituachLeumi: number;
+  employerBituachLeumi: number; // paid by the employer on top of gross, not deducted
+  healthTax: number;
+  surtax: number; // mas yesef on annual income above the threshold, including equity and capital income
   pensionContributions: number;
+  pensionTaxCredit: number; // income tax saved through the pension credit and deduction, already netted from incomeTax
+  residenceCredit: number; // income tax saved through the Eilat or periphery residence benefit, already netted from incomeTax
+  imputedIncome: number; // employer pension and study fund contributions above the exempt limits (zkifut)
   studyFundContributions: number;
   totalDeductions: number;
   effectiveTaxRate: number;
   marginalTaxRate: number;
+  creditPoints: number;
   grossSalary: number;
   netSalary: number;
 }
 
+// Employer cost (alut ma'asik) types
+export interface EmployerCostLine {
+  label: string;
+  category: 'salary' | 'statutory' | 'benefits' | 'perks' | 'equity';
+  annualCost: number;
+  assumption: string;
+}
+
+export interface EmployerCostReport {
+  lines: EmployerCostLine[];
+  annualSalary: number; // base salary and bonus
+  totalCost: number;
+  monthlyCost: number;
+  costPercentage: number; // cost above salary, as % of salary
+}
+
+// Payroll simulation types
+export type WithholdingMethod = 'monthly' | 'cumulative';
+
+export interface PayrollMonthInput {
+  baseSalary: number; // pensionable base
+  overtime: number; // global overtime, taxed but not pensionable
+  bonus: number;
+  equityIncome: number; // equity taxed through payroll in this month
+}
+
+export interface PayrollMonth extends PayrollMonthInput {
+  month: number; // 1-12
+  grossSalary: number;
+  incomeTaxWithheld: number;
+  surtaxWithheld: number;
+  bituachLeumi: number;
+  healthTax: number;
+  pensionContributions: number;
+  studyFundContributions: number;
+  netSalary: number;
+}
+
+export interface PayrollSimulation {
+  taxYear: number;
+  withholdingMethod: WithholdingMethod;
+  months: PayrollMonth[];
+  annualGross: number;
+  totalWithheld: number; // income tax and surtax withheld through payroll
+  annualLiability: number; // income tax and surtax on the full year's income
+  reconciliation: number; // positive = expected refund, negative = shortfall
+}
+
 // Currency and exchange rate types
 export interface ExchangeRate {
   rate: number;
@@ -163,17 +485,158 @@ export interface TaxBracket {
   rate: number;
 }
 
-export interface IsraeliTaxBrackets {
-  brackets: TaxBracket[];
+// Contributions charged at a reduced rate up to a threshold and a full rate up to a ceiling (monthly ILS)
+export interface TwoTierSchedule {
+  reducedRateThreshold: number;
+  monthlyCeiling: number;
+}
+
+export interface TwoTierRates {
+  reducedRate: number;
+  fullRate: number;
+}
+
+// Locality whose residents get a percentage credit on income tax (Section 11, or the Eilat free trade zone)
+export interface ResidenceLocality {
+  id: string;
+  name: string;
+  program: 'periphery' | 'eilat';
+  rate: number; // share of income credited against income tax
+  annualIncomeCeiling: number; // ILS income eligible for the credit
+}
+
+export interface AgeCreditTier {
+  minAge: number;
+  maxAge: number;
+  points: number;
+}
+
+// Complete set of tax rules for a single tax year
+export interface TaxRules {
   year: number;
-  currency: 'ILS';
+  incomeTaxBrackets: TaxBracket[]; // monthly ILS
+  bituachLeumi: TwoTierSchedule & {
+    minimumWage: number;
+    employee: TwoTierRates;
+    employer: TwoTierRates;
+  };
+  healthTax: TwoTierSchedule & TwoTierRates;
+  pension: {
+    employee: {
+      rate: number;
+      minContribution: number;
+      maxContribution: number;
+    };
+    employer: {
+      rate: number;
+      minContribution: number;
+      maxExemptRate: number; // employer contributions above this rate are imputed income
+    };
+    maxMonthlySalaryForPension: number;
+    maxAnnualSalaryForPension: number;
+    taxBenefit: {
+      creditRate: number; // Section 45a credit on employee contributions
+      creditContributionRate: number; // share of insured salary whose contributions earn the credit
+      insuredSalaryCeiling: number; // monthly ILS
+      deductionContributionRate: number; // Section 47 deduction for self-funded top-ups, share of pensionable salary
+    };
+  };
+  studyFund: {
+    employee: {
+      rate: number;
+    };
+    employer: {
+      rate: number;
+      maxExemptRate: number; // employer contributions above this rate are imputed income
+    };
+    maxMonthlySalaryForStudyFund: number;
+    maxAnnualSalaryForStudyFund: number;
+  };
+  severance: {
+    fullRate: number; // one month's salary per year of service
+    exemptionPerYearOfService: number; // ILS tax-exempt severance per year of service
+  };
+  creditPoints: {
+    pointValue: number; // ILS monthly value of one credit point
+    resident: number;
+    woman: number;
+    childrenByAge: {
+      mother: AgeCreditTier[];
+      father: AgeCreditTier[];
+    };
+    newImmigrant: {
+      fromMonth: number;
+      toMonth: number;
+      points: number;
+    }[];
+    dischargedSoldier: {
+      benefitMonths: number;
+      minServiceMonths: number;
+      fullServiceMonths: number;
+      fullServicePoints: number;
+      partialServicePoints: number;
+    };
+    academicDegree: Record<AcademicDegreeLevel, number>;
+  };
+  surtax: {
+    annualThreshold: number;
+    rate: number; // on all income above the threshold
+    capitalIncomeRate: number; // additional rate on capital income above the threshold
+  };
+  capitalGains: {
+    rate: number;
+    alternativeRate: number;
+  };
+  section102: {
+    capitalTrackTrusteeMonths: number;
+    ordinaryTrackTrusteeMonths: number;
+  };
+  recuperationPay: {
+    dailyRate: number; // ILS per recuperation day (dmei havra'a)
+    daysBySeniority: { fromYear: number; toYear: number; days: number }[];
+  };
+  holidayGifts: {
+    exemptThresholdPerGift: number; // ILS - gifts above this are fully taxable
+  };
+  carBenefit: {
+    listPriceRate: number; // monthly benefit as a share of the list price
+    maxListPrice: number;
+    priceGroupListPrices: number[]; // representative list price for legacy price groups 1-7
+    monthlyReductions: { [fuelType in CarFuelType]: number }; // ILS off the monthly benefit for green vehicles
+  };
+  residenceLocalities: ResidenceLocality[];
+  vat: {
+    rate: number;
+    exemptDealerTurnoverCeiling: number; // annual ILS turnover an osek patur may not exceed
+  };
+  selfEmployed: {
+    bituachLeumi: TwoTierRates; // on business income, same threshold and ceiling as employees
+    bituachLeumiDeductibleShare: number; // share of Bituach Leumi (not health tax) deductible from taxable income
+    mandatoryPension: TwoTierSchedule & TwoTierRates; // minimum pension deposit by law
+    pension: {
+      deductionRate: number; // share of qualifying income deductible
+      creditContributionRate: number; // further share of qualifying income earning the Section 45a credit
+      annualIncomeCeiling: number; // qualifying income ceiling
+    };
+    studyFund: {
+      deductionRate: number;
+      annualIncomeCeiling: number;
+    };
+  };
+  personalCompany: {
+    corporateTaxRate: number;
+    dividendTaxRate: number; // for a controlling shareholder (ba'al menayot mahuti)
+  };
 }
 
 // Equity valuation types
 export interface EquityValuation {
   currentValue: number;
   postTaxValue: number;
-  riskAdjustedValue: number;
+  riskAdjustedValue: number; // probability-weighted over exit scenarios when set, else the stage discount
+  exitDistribution?: { p10: number; p50: number; p90: number }; // when any grant has exit scenarios
+  annualOrdinaryIncome: number; // averaged over the vesting period
+  annualCapitalIncome: number;
   vestingSchedule: VestingEvent[];
   assumptions: string[];
 }
@@ -183,6 +646,7 @@ export interface VestingEvent {
   sharesVested: number;
   cumulativeShares: number;
   estimatedValue: number;
+  ownership?: number; // fraction of the company vested so far, after expected dilution
 }
 
 // Form and validation types
@@ -226,4 +690,6 @@ export type EquityType = 'RSU' | 'ISO' | 'NQSO' | 'ESPP';
 export type BenefitsCoverage = 'basic' | 'premium' | 'none';
 export type MealType = 'allowance' | 'provided' | 'none';
 export type VestingType = 'standard' | 'cliff' | 'custom';
-export type VestingFrequency = 'monthly' | 'quarterly' | 'annual'; 
\ No newline at end of file
+export type VestingFrequency = 'monthly' | 'quarterly' | 'annual';
+export type Gender = 'male' | 'female';
+export type AcademicDegreeLevel = 'bachelor' | 'master' | 'phd'; 
\ No newline at end of file
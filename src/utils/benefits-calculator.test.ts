@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { TAX_RULES_2024 } from '@/constants/tax-rules';
+import { BenefitsData, PerksData } from '@/types';
+import { BenefitsCalculator } from './benefits-calculator';
+import { TaxCalculator } from './tax-calculator';
+
+const rules = TAX_RULES_2024;
+
+const benefits = (overrides: Partial<BenefitsData> = {}): BenefitsData => ({
+  pensionFund: { employeeContribution: 6, employerContribution: 6.5 },
+  studyFund: { employeeContribution: 2.5, employerContribution: 7.5 },
+  severance: { employerContribution: 8.33, section14: true, expectedTenureYears: 3 },
+  healthInsurance: { coverage: 'none', employerContribution: 0 },
+  vacationDays: 12,
+  sickDays: 18,
+  parentalLeave: 0,
+  ...overrides
+});
+
+const perks = (overrides: Partial<PerksData> = {}): PerksData => ({
+  laptop: { provided: true, annualValue: 3000 },
+  internetStipend: 100,
+  phoneStipend: 0,
+  gymMembership: 200,
+  meals: { type: 'none', value: 0 },
+  transportation: 0,
+  learningBudget: 0,
+  flexibleWork: { remoteAllowed: false },
+  ...overrides
+});
+
+describe('BenefitsCalculator', () => {
+  describe('calculateSeveranceValue', () => {
+    it('makes Section 14 deposits portable and taxes the withdrawal above the exemption on top of annual income', () => {
+      const severance = BenefitsCalculator.calculateSeveranceValue(20000, benefits().severance, 300000, 2.25, rules);
+
+      expect(severance.portable).toBeCloseTo(20000 * 0.0833 * 12);
+      expect(severance.lost).toBeCloseTo(0);
+      expect(severance.exemptPortion).toBe(13750);
+      expect(severance.taxOnWithdrawal).toBeCloseTo(
+        TaxCalculator.calculateStackedTax(300000, severance.portable - 13750, 2.25, false, rules).incomeTax
+      );
+    });
+
+    it('loses the deposits on resignation without Section 14, and the shortfall below the full rate with it', () => {
+      const withoutSection14 = BenefitsCalculator.calculateSeveranceValue(20000, { ...benefits().severance, section14: false }, 240000, 2.25, rules);
+      const partial = BenefitsCalculator.calculateSeveranceValue(20000, { ...benefits().severance, employerContribution: 6 }, 240000, 2.25, rules);
+
+      expect(withoutSection14.portable).toBe(0);
+      expect(withoutSection14.lost).toBeCloseTo(20000 * 0.0833 * 12);
+      expect(partial.lost).toBeCloseTo(20000 * (0.0833 - 0.06) * 12);
+    });
+  });
+
+  describe('calculateImputedIncome', () => {
+    it('imputes employer contributions above the exempt rate', () => {
+      expect(BenefitsCalculator.calculateImputedIncome(20000, benefits(), rules).total).toBe(0);
+
+      const aboveRate = benefits({ pensionFund: { employeeContribution: 6, employerContribution: 8 } });
+      expect(BenefitsCalculator.calculateImputedIncome(20000, aboveRate, rules).pension).toBeCloseTo(20000 * 0.005 * 12);
+    });
+
+    it('imputes study fund contributions on salary above the ceiling', () => {
+      const fullSalary = benefits({ studyFund: { employeeContribution: 2.5, employerContribution: 7.5, onFullSalary: true } });
+      const imputed = BenefitsCalculator.calculateImputedIncome(40000, fullSalary, rules);
+
+      expect(imputed.studyFund).toBeCloseTo((40000 - 33500) * 0.075 * 12);
+      expect(TaxCalculator.calculateImputedIncomeTax(480000, imputed.total, 2.25, rules)).toBeCloseTo(
+        TaxCalculator.calculateStackedTax(480000, imputed.total, 2.25, true, rules).total
+      );
+    });
+  });
+
+  describe('calculateRecuperationPay', () => {
+    it('pays the days for the year of service at the daily rate', () => {
+      expect(BenefitsCalculator.calculateRecuperationPay(1, rules).annualAmount).toBe(5 * 418);
+      expect(BenefitsCalculator.calculateRecuperationPay(0.5, rules).days).toBe(5);
+      expect(BenefitsCalculator.calculateRecuperationPay(3, rules).days).toBe(6);
+      expect(BenefitsCalculator.calculateRecuperationPay(12, rules).days).toBe(8);
+      expect(BenefitsCalculator.calculateRecuperationPay(30, rules).days).toBe(10);
+    });
+  });
+
+  describe('calculateHolidayGifts', () => {
+    it('taxes a gift above the threshold in full and leaves the others exempt', () => {
+      expect(BenefitsCalculator.calculateHolidayGifts({ roshHashana: 200, passover: 500 }, rules)).toEqual({ annualValue: 700, taxableValue: 500 });
+      expect(BenefitsCalculator.calculateHolidayGifts(undefined, rules)).toEqual({ annualValue: 0, taxableValue: 0 });
+    });
+  });
+
+  describe('calculatePerksTax', () => {
+    it('taxes taxable perks on top of salary and leaves exempt perks untaxed', () => {
+      const perksTax = BenefitsCalculator.calculatePerksTax(perks(), 360000, 2.25, rules);
+      const laptop = perksTax.lines.find(line => line.perk === 'laptop');
+
+      expect(laptop?.taxableIncome).toBe(0);
+      expect(perksTax.totalEmployeeTax).toBeCloseTo(TaxCalculator.calculateImputedIncomeTax(360000, 3600, 2.25, rules));
+      expect(perksTax.totalEmployerGrossUp).toBe(0);
+      expect(perksTax.totalTaxableIncome).toBe(3600);
+    });
+
+    it('grosses up perks the employer pays the tax on, including the tax on the gross-up itself', () => {
+      const perksTax = BenefitsCalculator.calculatePerksTax(perks({ taxTreatment: { gymMembership: 'grossedUp' } }), 360000, 2.25, rules);
+      const { totalEmployerGrossUp } = perksTax;
+
+      expect(totalEmployerGrossUp).toBeGreaterThan(0);
+      expect(totalEmployerGrossUp).toBeCloseTo(TaxCalculator.calculateImputedIncomeTax(361200, 2400 + totalEmployerGrossUp, 2.25, rules), 1);
+      expect(perksTax.totalTaxableIncome).toBeCloseTo(1200 + 2400 + totalEmployerGrossUp);
+    });
+  });
+
+  describe('calculateTotalEmployerCost', () => {
+    it('adds the employer contributions on top of salary and totals the lines', () => {
+      const report = BenefitsCalculator.calculateTotalEmployerCost(20000, benefits(), undefined, {}, rules);
+      const line = (label: string) => report.lines.find(l => l.label === label)?.annualCost;
+
+      expect(line('Base salary')).toBe(240000);
+      expect(line('Pension (employer)')).toBeCloseTo(20000 * 0.065 * 12);
+      expect(line('Severance (pitzuim)')).toBeCloseTo(20000 * 0.0833 * 12);
+      expect(line('Bituach Leumi (employer)')).toBeCloseTo(TaxCalculator.calculateBituachLeumi(20000, rules).employer * 12);
+      expect(report.totalCost).toBeCloseTo(report.lines.reduce((sum, l) => sum + l.annualCost, 0));
+      expect(report.costPercentage).toBeCloseTo((report.totalCost - 240000) / 240000 * 100);
+    });
+
+    it('charges employer Bituach Leumi on overtime and bonus but pension on base salary only', () => {
+      const report = BenefitsCalculator.calculateTotalEmployerCost(20000, benefits(), undefined, { annualOvertime: 24000, annualBonus: 36000 }, rules);
+      const line = (label: string) => report.lines.find(l => l.label === label)?.annualCost;
+
+      expect(report.annualSalary).toBe(300000);
+      expect(line('Bituach Leumi (employer)')).toBeCloseTo(TaxCalculator.calculateBituachLeumi(25000, rules).employer * 12);
+      expect(line('Pension (employer)')).toBeCloseTo(20000 * 0.065 * 12);
+    });
+  });
+});
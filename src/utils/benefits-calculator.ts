@@ -1,27 +1,157 @@
-import { BenefitsData, ComponentBreakdown, PerksData } from '@/types';
+import {
+  BenefitsData,
+  CompanyCar,
+  SalaryData,
+  ComponentBreakdown,
+  EmployerCostLine,
+  EmployerCostReport,
+  PerkKey,
+  PerkTaxLine,
+  PerksData,
+  TaxRules
+} from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
 import { 
-  PENSION_RATES_2024, 
-  STUDY_FUND_RATES_2024, 
   HEALTH_INSURANCE_2024,
   VACATION_VALUATION_2024,
-  TECH_PERKS_BENCHMARKS_2024
+  TECH_PERKS_BENCHMARKS_2024,
+  EMPLOYER_COSTS_2024,
+  DEFAULT_PERK_TAX_TREATMENT
 } from '@/constants/israeli-tax';
+import { TaxCalculator } from './tax-calculator';
 
 export class BenefitsCalculator {
   /**
    * Calculate pension fund value (employer contribution)
    */
-  static calculatePensionValue(monthlySalary: number, employerRate: number = PENSION_RATES_2024.employer.rate): number {
-    const applicableSalary = Math.min(monthlySalary, PENSION_RATES_2024.maxMonthlySalaryForPension);
-    return applicableSalary * employerRate * 12; // Annual value
+  static calculatePensionValue(
+    monthlySalary: number,
+    employerRate?: number,
+    rules: TaxRules = getTaxRules(),
+    onFullSalary: boolean = false
+  ): number {
+    const applicableSalary = onFullSalary ? monthlySalary : Math.min(monthlySalary, rules.pension.maxMonthlySalaryForPension);
+    const rate = employerRate ?? rules.pension.employer.rate;
+    return applicableSalary * rate * 12; // Annual value
   }
 
   /**
    * Calculate study fund value (employer contribution)
    */
-  static calculateStudyFundValue(monthlySalary: number, employerRate: number = STUDY_FUND_RATES_2024.employer.rate): number {
-    const applicableSalary = Math.min(monthlySalary, STUDY_FUND_RATES_2024.maxMonthlySalaryForStudyFund);
-    return applicableSalary * employerRate * 12; // Annual value
+  static calculateStudyFundValue(
+    monthlySalary: number,
+    employerRate?: number,
+    rules: TaxRules = getTaxRules(),
+    onFullSalary: boolean = false
+  ): number {
+    const applicableSalary = onFullSalary ? monthlySalary : Math.min(monthlySalary, rules.studyFund.maxMonthlySalaryForStudyFund);
+    const rate = employerRate ?? rules.studyFund.employer.rate;
+    return applicableSalary * rate * 12; // Annual value
+  }
+
+  /**
+   * Calculate imputed income (zkifut) - employer pension and study fund contributions above the exempt rate or salary ceiling
+   */
+  static calculateImputedIncome(monthlySalary: number, benefitsData: BenefitsData, rules: TaxRules = getTaxRules()): {
+    pension: number;
+    studyFund: number;
+    total: number;
+  } {
+    const { pensionFund, studyFund } = benefitsData;
+    
+    const pensionRate = pensionFund.employerContribution / 100;
+    const pensionExempt = this.calculatePensionValue(monthlySalary, Math.min(pensionRate, rules.pension.employer.maxExemptRate), rules);
+    const pension = Math.max(0, this.calculatePensionValue(monthlySalary, pensionRate, rules, pensionFund.onFullSalary) - pensionExempt);
+    
+    const studyFundRate = studyFund.employerContribution / 100;
+    const studyFundExempt = this.calculateStudyFundValue(monthlySalary, Math.min(studyFundRate, rules.studyFund.employer.maxExemptRate), rules);
+    const studyFundImputed = Math.max(0, this.calculateStudyFundValue(monthlySalary, studyFundRate, rules, studyFund.onFullSalary) - studyFundExempt);
+    
+    return {
+      pension,
+      studyFund: studyFundImputed,
+      total: pension + studyFundImputed
+    };
+  }
+
+  /**
+   * Calculate severance (pitzuim) accrual - what is deposited, what is portable on resignation and what is tax-exempt
+   */
+  static calculateSeveranceValue(
+    monthlySalary: number,
+    severanceData: BenefitsData['severance'],
+    annualIncome: number = monthlySalary * 12,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): {
+    annualAccrual: number;
+    portable: number;
+    lost: number;
+    exemptPortion: number;
+    taxOnWithdrawal: number;
+    netPortable: number;
+  } {
+    const applicableSalary = Math.min(monthlySalary, rules.pension.maxMonthlySalaryForPension);
+    const annualAccrual = applicableSalary * (severanceData.employerContribution / 100) * 12;
+    
+    // Full entitlement on dismissal is one month's salary per year of service
+    const annualEntitlement = applicableSalary * rules.severance.fullRate * 12;
+    
+    // Section 14 releases the deposits to the employee on resignation, otherwise they stay with the employer
+    const portable = severanceData.section14 ? annualAccrual : 0;
+    const lost = Math.max(0, annualEntitlement - portable);
+    
+    // Withdrawals above the per-year exemption are taxed as income on top of salary
+    const exemptPortion = Math.min(portable, rules.severance.exemptionPerYearOfService);
+    const taxOnWithdrawal = portable > exemptPortion
+      ? TaxCalculator.calculateStackedTax(annualIncome, portable - exemptPortion, taxPoints, false, rules).incomeTax
+      : 0;
+    
+    return {
+      annualAccrual,
+      portable,
+      lost,
+      exemptPortion,
+      taxOnWithdrawal,
+      netPortable: portable - taxOnWithdrawal
+    };
+  }
+
+  /**
+   * Calculate annual recuperation pay (dmei havra'a) - days by year of service at the tax year's daily rate
+   */
+  static calculateRecuperationPay(seniorityYears: number = 1, rules: TaxRules = getTaxRules()): {
+    days: number;
+    dailyRate: number;
+    annualAmount: number;
+  } {
+    const year = Math.max(1, Math.ceil(seniorityYears));
+    const tier = rules.recuperationPay.daysBySeniority.find(t => year >= t.fromYear && year <= t.toYear);
+    const days = tier ? tier.days : 0;
+    
+    return {
+      days,
+      dailyRate: rules.recuperationPay.dailyRate,
+      annualAmount: days * rules.recuperationPay.dailyRate
+    };
+  }
+
+  /**
+   * Calculate holiday gifts and the part that is taxable - a gift above the threshold is taxable in full
+   */
+  static calculateHolidayGifts(gifts: SalaryData['holidayGifts'], rules: TaxRules = getTaxRules()): {
+    annualValue: number;
+    taxableValue: number;
+  } {
+    if (!gifts) return { annualValue: 0, taxableValue: 0 };
+    
+    const values = [gifts.roshHashana, gifts.passover].filter(value => value > 0);
+    const threshold = rules.holidayGifts.exemptThresholdPerGift;
+    
+    return {
+      annualValue: values.reduce((sum, value) => sum + value, 0),
+      taxableValue: values.filter(value => value > threshold).reduce((sum, value) => sum + value, 0)
+    };
   }
 
   /**
@@ -90,9 +220,10 @@ export class BenefitsCalculator {
     gymMembership?: number;
     meals?: { type: 'allowance' | 'provided' | 'none'; value: number };
     transportation?: number;
+    companyCar?: CompanyCar;
     learningBudget?: number;
     flexibleWork?: { remoteAllowed: boolean; hybridDays?: number };
-  }): {
+  }, rules: TaxRules = getTaxRules()): {
     totalAnnualValue: number;
     breakdown: { [key: string]: number };
   } {
@@ -136,6 +267,15 @@ export class BenefitsCalculator {
       totalAnnualValue += perks.transportation * 12;
     }
 
+    // Company car - the official monthly use value plus fuel, less what the employee pays toward it
+    if (perks.companyCar) {
+      const carBenefit = TaxCalculator.calculateCarBenefit(perks.companyCar, rules);
+      const fuelValue = perks.companyCar.fuelCard ? perks.companyCar.monthlyFuelValue : 0;
+      const carValue = Math.max(0, carBenefit.monthlyBenefit + fuelValue - perks.companyCar.employeeParticipation) * 12;
+      breakdown.companyCar = carValue;
+      totalAnnualValue += carValue;
+    }
+
     // Learning budget
     if (perks.learningBudget && perks.learningBudget > 0) {
       breakdown.learningBudget = perks.learningBudget;
@@ -155,35 +295,143 @@ export class BenefitsCalculator {
   }
 
   /**
-   * Calculate comprehensive benefits breakdown
+   * Calculate the tax on each perk by its treatment - taxable perks are stacked on top of salary at the marginal rates,
+   * grossed-up perks are stacked on top of those with the employer paying the tax, including tax on the gross-up itself
+   */
+  static calculatePerksTax(
+    perksData: PerksData,
+    annualTaxableIncome: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): {
+    lines: PerkTaxLine[];
+    totalEmployeeTax: number;
+    totalEmployerGrossUp: number;
+    totalTaxableIncome: number;
+  } {
+    const perksValue = this.calculatePerksValue(perksData, rules);
+    
+    const lines: PerkTaxLine[] = Object.entries(perksValue.breakdown)
+      .filter(([, value]) => value > 0)
+      .map(([perkName, value]) => {
+        const perk = perkName as PerkKey;
+        const treatment = perksData.taxTreatment?.[perk] ?? DEFAULT_PERK_TAX_TREATMENT[perk];
+        
+        // A company car is taxed on the official car benefit rather than its value
+        const taxableValue = perk === 'companyCar' && perksData.companyCar
+          ? TaxCalculator.calculateCarBenefit(perksData.companyCar, rules).monthlyTaxableBenefit * 12
+          : value;
+        
+        return {
+          perk,
+          value,
+          treatment,
+          taxableIncome: treatment === 'exempt' ? 0 : taxableValue,
+          employeeTax: 0,
+          employerGrossUp: 0
+        };
+      });
+    
+    const employeeTaxableIncome = lines
+      .filter(line => line.treatment === 'taxable')
+      .reduce((sum, line) => sum + line.taxableIncome, 0);
+    const grossedUpIncome = lines
+      .filter(line => line.treatment === 'grossedUp')
+      .reduce((sum, line) => sum + line.taxableIncome, 0);
+    
+    const totalEmployeeTax = TaxCalculator.calculateImputedIncomeTax(annualTaxableIncome, employeeTaxableIncome, taxPoints, rules);
+    
+    // The gross-up is itself taxable, so solve gross-up = tax(grossed-up perks + gross-up)
+    let totalEmployerGrossUp = 0;
+    for (let iteration = 0; iteration < 50 && grossedUpIncome > 0; iteration++) {
+      const nextGrossUp = TaxCalculator.calculateImputedIncomeTax(
+        annualTaxableIncome + employeeTaxableIncome,
+        grossedUpIncome + totalEmployerGrossUp,
+        taxPoints,
+        rules
+      );
+      const converged = Math.abs(nextGrossUp - totalEmployerGrossUp) < 0.01;
+      totalEmployerGrossUp = nextGrossUp;
+      if (converged) break;
+    }
+    
+    // Allocate the stacked tax and gross-up to each perk by its share of the taxable income
+    for (const line of lines) {
+      if (line.treatment === 'taxable' && employeeTaxableIncome > 0) {
+        line.employeeTax = totalEmployeeTax * line.taxableIncome / employeeTaxableIncome;
+      } else if (line.treatment === 'grossedUp' && grossedUpIncome > 0) {
+        line.employerGrossUp = totalEmployerGrossUp * line.taxableIncome / grossedUpIncome;
+        line.taxableIncome += line.employerGrossUp;
+      }
+    }
+    
+    return {
+      lines,
+      totalEmployeeTax,
+      totalEmployerGrossUp,
+      totalTaxableIncome: employeeTaxableIncome + grossedUpIncome + totalEmployerGrossUp
+    };
+  }
+
+  /**
+   * Calculate comprehensive benefits breakdown - imputed income and severance withdrawals are taxed on top of the annual taxable salary,
+   * base salary only if not given
    */
   static calculateComprehensiveBenefits(
     monthlySalary: number, 
     benefitsData: BenefitsData,
-    _perks?: PerksData
+    _perks?: PerksData,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    annualTaxableSalary: number = monthlySalary * 12
   ): ComponentBreakdown {
     const components: { [key: string]: { value: number; method: string; assumptions: string[] } } = {};
+    const imputedIncome = this.calculateImputedIncome(monthlySalary, benefitsData, rules);
 
     // Pension fund
     const pensionValue = this.calculatePensionValue(
       monthlySalary, 
-      benefitsData.pensionFund.employerContribution / 100
+      benefitsData.pensionFund.employerContribution / 100,
+      rules,
+      benefitsData.pensionFund.onFullSalary
     );
     components.pensionFund = {
       value: pensionValue,
       method: 'employer_contribution',
-      assumptions: [`Employer contribution: ${benefitsData.pensionFund.employerContribution}%`]
+      assumptions: [
+        `Employer contribution: ${benefitsData.pensionFund.employerContribution}%${benefitsData.pensionFund.onFullSalary ? ' on full salary' : ''}`,
+        ...(imputedIncome.pension > 0 ? [`Imputed income above the exempt limit: ₪${Math.round(imputedIncome.pension).toLocaleString()}`] : [])
+      ]
     };
 
     // Study fund
     const studyFundValue = this.calculateStudyFundValue(
       monthlySalary,
-      benefitsData.studyFund.employerContribution / 100
+      benefitsData.studyFund.employerContribution / 100,
+      rules,
+      benefitsData.studyFund.onFullSalary
     );
     components.studyFund = {
       value: studyFundValue,
       method: 'employer_contribution',
-      assumptions: [`Employer contribution: ${benefitsData.studyFund.employerContribution}%`]
+      assumptions: [
+        `Employer contribution: ${benefitsData.studyFund.employerContribution}%${benefitsData.studyFund.onFullSalary ? ' on full salary' : ''}`,
+        ...(imputedIncome.studyFund > 0 ? [`Imputed income above the exempt limit: ₪${Math.round(imputedIncome.studyFund).toLocaleString()}`] : [])
+      ]
+    };
+
+    // Severance - valued at what the employee keeps if they resign, after tax on withdrawal on top of all taxable salary and imputed income
+    const severance = this.calculateSeveranceValue(monthlySalary, benefitsData.severance, annualTaxableSalary + imputedIncome.total, taxPoints, rules);
+    const { expectedTenureYears } = benefitsData.severance;
+    components.severance = {
+      value: severance.portable,
+      method: 'portable_deposits',
+      assumptions: [
+        `Employer deposit: ${benefitsData.severance.employerContribution}% (${benefitsData.severance.section14 ? 'Section 14' : 'no Section 14'})`,
+        `Accrued per year: ₪${Math.round(severance.annualAccrual).toLocaleString()}, portable: ₪${Math.round(severance.portable).toLocaleString()}, lost on resignation: ₪${Math.round(severance.lost).toLocaleString()}`,
+        `Tax-exempt per year of service: ₪${Math.round(severance.exemptPortion).toLocaleString()}`,
+        `Portable over ${expectedTenureYears} years: ₪${Math.round(severance.netPortable * expectedTenureYears).toLocaleString()} after tax`
+      ]
     };
 
     // Health insurance
@@ -228,8 +476,9 @@ export class BenefitsCalculator {
     // Calculate totals
     const grossTotal = Object.values(components).reduce((sum, comp) => sum + comp.value, 0);
     
-    // Benefits are typically not taxed as income to employee, so net = gross
-    const netTotal = grossTotal;
+    // Benefits are typically not taxed as income to employee, except imputed income and severance withdrawn above the exemption
+    const imputedIncomeTax = TaxCalculator.calculateImputedIncomeTax(annualTaxableSalary, imputedIncome.total, taxPoints, rules);
+    const netTotal = grossTotal - imputedIncomeTax - severance.taxOnWithdrawal;
 
     return {
       gross: grossTotal,
@@ -272,38 +521,155 @@ export class BenefitsCalculator {
   }
 
   /**
-   * Calculate total employer cost (salary + benefits)
+   * Calculate total employer cost (alut ma'asik) - salary, employer contributions, benefits, grossed-up perks and equity expense
    */
-  static calculateTotalEmployerCost(monthlySalary: number, benefitsData: BenefitsData): {
-    baseSalary: number;
-    mandatoryBenefits: number;
-    additionalBenefits: number;
-    totalCost: number;
-    costPercentage: number;
-  } {
-    const annualSalary = monthlySalary * 12;
+  static calculateTotalEmployerCost(
+    monthlySalary: number,
+    benefitsData: BenefitsData,
+    perksData?: PerksData,
+    extras: {
+      annualOvertime?: number;
+      annualBonus?: number;
+      annualRecuperationPay?: number;
+      annualHolidayGifts?: number;
+      annualEquityExpense?: number;
+      taxPoints?: number;
+      perksTax?: { lines: PerkTaxLine[]; totalEmployerGrossUp: number }; // the package's perk tax, so both views share one gross-up
+    } = {},
+    rules: TaxRules = getTaxRules()
+  ): EmployerCostReport {
+    const annualOvertime = extras.annualOvertime || 0;
+    const annualBonus = extras.annualBonus || 0;
+    const annualRecuperationPay = extras.annualRecuperationPay || 0;
+    const annualSalary = monthlySalary * 12 + annualOvertime + annualBonus + annualRecuperationPay;
+    const lines: EmployerCostLine[] = [];
     
-    // Mandatory employer contributions
-    const pensionContribution = this.calculatePensionValue(monthlySalary, benefitsData.pensionFund.employerContribution / 100);
-    const studyFundContribution = this.calculateStudyFundValue(monthlySalary, benefitsData.studyFund.employerContribution / 100);
-    const mandatoryBenefits = pensionContribution + studyFundContribution;
+    lines.push({ label: 'Base salary', category: 'salary', annualCost: monthlySalary * 12, assumption: 'Gross monthly salary x 12' });
+    if (annualOvertime > 0) {
+      lines.push({ label: 'Global overtime', category: 'salary', annualCost: annualOvertime, assumption: 'Not pensionable' });
+    }
+    if (annualBonus > 0) {
+      lines.push({ label: 'Bonus', category: 'salary', annualCost: annualBonus, assumption: 'Not pensionable' });
+    }
+    if (annualRecuperationPay > 0) {
+      lines.push({ label: 'Recuperation pay', category: 'salary', annualCost: annualRecuperationPay, assumption: 'Statutory, by year of service' });
+    }
+    
+    // Statutory employer contributions - pension and severance on base salary, Bituach Leumi on all salary including overtime
+    const pensionContribution = this.calculatePensionValue(
+      monthlySalary,
+      benefitsData.pensionFund.employerContribution / 100,
+      rules,
+      benefitsData.pensionFund.onFullSalary
+    );
+    lines.push({
+      label: 'Pension (employer)',
+      category: 'statutory',
+      annualCost: pensionContribution,
+      assumption: `${benefitsData.pensionFund.employerContribution}% of ${benefitsData.pensionFund.onFullSalary ? 'full' : 'pensionable'} salary`
+    });
+    
+    const severanceContribution = this.calculatePensionValue(monthlySalary, benefitsData.severance.employerContribution / 100, rules);
+    lines.push({
+      label: 'Severance (pitzuim)',
+      category: 'statutory',
+      annualCost: severanceContribution,
+      assumption: `${benefitsData.severance.employerContribution}% of pensionable salary`
+    });
+    
+    const bituachLeumiContribution = TaxCalculator.calculateBituachLeumi(annualSalary / 12, rules).employer * 12;
+    lines.push({
+      label: 'Bituach Leumi (employer)',
+      category: 'statutory',
+      annualCost: bituachLeumiContribution,
+      assumption: `Two-tier employer rates for ${rules.year}`
+    });
+    
+    // Benefits
+    const disabilityInsurance = this.calculatePensionValue(monthlySalary, EMPLOYER_COSTS_2024.disabilityInsuranceRate, rules);
+    lines.push({
+      label: 'Disability insurance',
+      category: 'benefits',
+      annualCost: disabilityInsurance,
+      assumption: `${(EMPLOYER_COSTS_2024.disabilityInsuranceRate * 100).toFixed(1)}% of pensionable salary`
+    });
+    
+    const studyFundContribution = this.calculateStudyFundValue(
+      monthlySalary,
+      benefitsData.studyFund.employerContribution / 100,
+      rules,
+      benefitsData.studyFund.onFullSalary
+    );
+    lines.push({
+      label: 'Study fund (employer)',
+      category: 'benefits',
+      annualCost: studyFundContribution,
+      assumption: `${benefitsData.studyFund.employerContribution}% ${benefitsData.studyFund.onFullSalary ? 'of full salary' : 'up to the study fund ceiling'}`
+    });
     
-    // Additional benefits
     const healthInsurance = this.calculateHealthInsuranceValue(
       benefitsData.healthInsurance.coverage,
       benefitsData.healthInsurance.employerContribution
     );
-    const additionalBenefits = healthInsurance;
+    if (healthInsurance > 0) {
+      lines.push({
+        label: 'Health insurance',
+        category: 'benefits',
+        annualCost: healthInsurance,
+        assumption: `Coverage: ${benefitsData.healthInsurance.coverage}`
+      });
+    }
+    
+    // Perks, plus the tax the employer pays on perks it grosses up
+    if (perksData) {
+      const perksValue = this.calculatePerksValue(perksData, rules);
+      lines.push({
+        label: 'Perks',
+        category: 'perks',
+        annualCost: perksValue.totalAnnualValue,
+        assumption: 'Valued at market rate or stipend amount'
+      });
+      
+      const perksTax = extras.perksTax ?? this.calculatePerksTax(perksData, annualSalary, extras.taxPoints, rules);
+      if (perksTax.totalEmployerGrossUp > 0) {
+        const grossedUpCount = perksTax.lines.filter(line => line.treatment === 'grossedUp').length;
+        lines.push({
+          label: 'Perk tax gross-up',
+          category: 'perks',
+          annualCost: perksTax.totalEmployerGrossUp,
+          assumption: `Employee tax on ${grossedUpCount} grossed-up perk${grossedUpCount === 1 ? '' : 's'} at the marginal rates`
+        });
+      }
+    }
+    
+    if (extras.annualHolidayGifts && extras.annualHolidayGifts > 0) {
+      lines.push({
+        label: 'Holiday gifts',
+        category: 'perks',
+        annualCost: extras.annualHolidayGifts,
+        assumption: 'Rosh Hashana and Passover gifts'
+      });
+    }
+    
+    // Equity expense amortized over the vesting period
+    if (extras.annualEquityExpense && extras.annualEquityExpense > 0) {
+      lines.push({
+        label: 'Equity expense',
+        category: 'equity',
+        annualCost: extras.annualEquityExpense,
+        assumption: 'Current grant value amortized over the vesting period'
+      });
+    }
     
-    const totalCost = annualSalary + mandatoryBenefits + additionalBenefits;
-    const costPercentage = ((mandatoryBenefits + additionalBenefits) / annualSalary) * 100;
+    const totalCost = lines.reduce((sum, line) => sum + line.annualCost, 0);
+    const costPercentage = annualSalary > 0 ? ((totalCost - annualSalary) / annualSalary) * 100 : 0;
     
     return {
-      baseSalary: annualSalary,
-      mandatoryBenefits,
-      additionalBenefits,
+      lines,
+      annualSalary,
       totalCost,
+      monthlyCost: totalCost / 12,
       costPercentage
     };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { SalaryData } from '@/types';
+import { CompensationCalculator } from './compensation-calculator';
+
+const salary = (overrides: Partial<SalaryData> = {}): SalaryData => ({
+  baseSalary: 24000,
+  currency: 'ILS',
+  frequency: 'monthly',
+  ...overrides
+});
+
+describe('CompensationCalculator', () => {
+  describe('getMonthlyBaseSalary', () => {
+    it('converts annual and hourly pay to a monthly base', () => {
+      expect(CompensationCalculator.getMonthlyBaseSalary(salary())).toBe(24000);
+      expect(CompensationCalculator.getMonthlyBaseSalary(salary({ baseSalary: 288000, frequency: 'annual' }))).toBe(24000);
+      expect(CompensationCalculator.getMonthlyBaseSalary(salary({ baseSalary: 150, frequency: 'hourly', hoursPerMonth: 160 }))).toBe(24000);
+    });
+
+    it('uses the full-time monthly hours for an hourly rate without hours, and leaves overtime out of the base', () => {
+      expect(CompensationCalculator.getMonthlyBaseSalary(salary({ baseSalary: 100, frequency: 'hourly' }))).toBe(18200);
+      expect(CompensationCalculator.getMonthlyBaseSalary(salary({ globalOvertime: 3000 }))).toBe(24000);
+    });
+  });
+});
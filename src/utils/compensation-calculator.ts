@@ -1,8 +1,14 @@
-import { CompensationPackage, CompensationCalculation, SalaryData, BenefitsData, EquityData, PerksData, ComponentBreakdown } from '@/types';
+import { CompensationPackage, CompensationCalculation, ExchangeRate, SalaryData, BenefitsData, EquityData, PerksData, PerkTaxLine, ComponentBreakdown, TaxRules, PayrollSimulation } from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
+import { WORKING_HOURS_2024 } from '@/constants/israeli-tax';
 import { TaxCalculator } from './tax-calculator';
 import { CurrencyConverter } from './currency-converter';
 import { EquityValuator } from './equity-valuator';
 import { BenefitsCalculator } from './benefits-calculator';
+import { CreditPointsCalculator } from './credit-points-calculator';
+import { PayrollSimulator } from './payroll-simulator';
+import { SelfEmployedCalculator } from './self-employed-calculator';
+import { HouseholdCalculator } from './household-calculator';
 
 export class CompensationCalculator {
   /**
@@ -13,18 +19,82 @@ export class CompensationCalculator {
       // Get current exchange rate
       const exchangeRate = await CurrencyConverter.getCurrentExchangeRate();
       
-      // Calculate base salary in ILS
-      const annualSalaryILS = await this.calculateAnnualSalaryILS(packageData.salary);
-      const monthlySalaryILS = annualSalaryILS / 12;
+      // Tax rules for the package's tax year
+      const rules = getTaxRules(packageData.taxYear);
+      
+      // Calculate base salary in ILS - pension, study fund and severance are based on the base salary only
+      const salaryComponents = await this.calculateSalaryComponentsILS(packageData.salary);
+      const annualSalaryILS = salaryComponents.total;
+      const pensionableMonthlySalaryILS = salaryComponents.annualBase / 12;
+      
+      // Derive credit points from the personal tax profile
+      const creditPoints = CreditPointsCalculator.calculateCreditPoints(packageData.taxProfile, rules);
+      
+      // Contractors are taxed on business income instead of through payroll
+      if (packageData.employmentType === 'selfEmployed') {
+        const selfEmployedCalculation = await this.calculateSelfEmployedCompensation(packageData, creditPoints.totalPoints, exchangeRate, rules);
+        return this.withHousehold(selfEmployedCalculation, packageData, rules);
+      }
+      
+      // Recuperation pay and taxable holiday gifts are salary income on top of base, overtime and bonus
+      const recuperationPay = BenefitsCalculator.calculateRecuperationPay(packageData.salary.seniorityYears, rules).annualAmount;
+      const holidayGifts = BenefitsCalculator.calculateHolidayGifts(packageData.salary.holidayGifts, rules);
+      const annualTaxableSalaryILS = annualSalaryILS + recuperationPay + holidayGifts.taxableValue;
       
       // Calculate each component
-      const baseSalaryBreakdown = await this.calculateBaseSalaryBreakdown(packageData.salary);
-      const benefitsBreakdown = this.calculateBenefitsBreakdown(monthlySalaryILS, packageData.benefits);
-      const equityBreakdown = await this.calculateEquityBreakdown(packageData.equity);
-      const perksBreakdown = this.calculatePerksBreakdown(packageData.perks);
+      const pensionEmployeeRate = packageData.benefits.pensionFund.employeeContribution / 100;
+      const baseSalaryBreakdown = await this.calculateBaseSalaryBreakdown(
+        packageData.salary,
+        creditPoints.totalPoints,
+        pensionEmployeeRate,
+        rules,
+        packageData.taxProfile.residenceLocality
+      );
+      const benefitsBreakdown = this.calculateBenefitsBreakdown(pensionableMonthlySalaryILS, annualTaxableSalaryILS, packageData.benefits, creditPoints.totalPoints, rules);
+      const benefitsImputedIncome = BenefitsCalculator.calculateImputedIncome(pensionableMonthlySalaryILS, packageData.benefits, rules).total;
+      const perksTax = BenefitsCalculator.calculatePerksTax(packageData.perks, annualTaxableSalaryILS + benefitsImputedIncome, creditPoints.totalPoints, rules);
+      const perksBreakdown = this.calculatePerksBreakdown(packageData.perks, perksTax, rules);
+      const imputedIncome = benefitsImputedIncome + perksTax.totalTaxableIncome;
+      
+      // Equity is the top layer of one cumulative taxable base - salary, then imputed income from benefits and perks, then equity
+      const { breakdown: equityBreakdown, annualIncome: equityIncome, exitDistribution: equityExitDistribution } =
+        await this.calculateEquityBreakdown(packageData.equity, annualTaxableSalaryILS + imputedIncome, creditPoints.totalPoints, rules);
+      
+      // Calculate tax implications on the pensionable base with overtime, bonus, recuperation pay and taxable holiday gifts stacked on top,
+      // as in the salary breakdown, and surtax on salary plus annual equity and imputed income from benefits and perks
+      const taxBreakdown = TaxCalculator.getAnnualTaxBreakdown(
+        pensionableMonthlySalaryILS,
+        creditPoints.totalPoints,
+        rules,
+        {
+          ...equityIncome,
+          imputedIncome,
+          stackedSalary: annualTaxableSalaryILS - salaryComponents.annualBase,
+          exemptSalary: holidayGifts.annualValue - holidayGifts.taxableValue
+        },
+        pensionEmployeeRate,
+        packageData.taxProfile.residenceLocality
+      );
+      
+      // Month-by-month withholding with bonus and vest months
+      const payrollSimulation = await this.calculatePayrollSimulation(packageData, creditPoints.totalPoints, rules);
       
-      // Calculate tax implications
-      const taxBreakdown = TaxCalculator.getAnnualTaxBreakdown(monthlySalaryILS);
+      // Employer view of the same package
+      const employerCost = BenefitsCalculator.calculateTotalEmployerCost(
+        pensionableMonthlySalaryILS,
+        packageData.benefits,
+        packageData.perks,
+        {
+          annualOvertime: salaryComponents.annualOvertime,
+          annualBonus: salaryComponents.annualBonus,
+          annualRecuperationPay: recuperationPay,
+          annualHolidayGifts: holidayGifts.annualValue,
+          annualEquityExpense: equityIncome.ordinaryIncome + equityIncome.capitalIncome,
+          taxPoints: creditPoints.totalPoints,
+          perksTax
+        },
+        rules
+      );
       
       // Calculate totals
       const totalGrossCompensation = 
@@ -39,7 +109,7 @@ export class CompensationCalculator {
         equityBreakdown.net + 
         perksBreakdown.net;
       
-      return {
+      return this.withHousehold({
         totalAnnualCompensation: totalGrossCompensation,
         breakdown: {
           baseSalary: baseSalaryBreakdown,
@@ -48,13 +118,18 @@ export class CompensationCalculator {
           perks: perksBreakdown
         },
         taxImplications: taxBreakdown,
+        payrollSimulation,
+        employerCost,
         netCompensation: totalNetCompensation,
+        equityExitDistribution,
+        employmentType: 'employee',
+        taxYear: rules.year,
         exchangeRates: {
           usdToIls: exchangeRate,
           timestamp: new Date()
         },
         calculatedAt: new Date()
-      };
+      }, packageData, rules);
     } catch (error) {
       console.error('Error calculating total compensation:', error);
       throw new Error('Failed to calculate compensation. Please check your inputs and try again.');
@@ -62,49 +137,224 @@ export class CompensationCalculator {
   }
 
   /**
-   * Calculate annual salary in ILS
+   * Add the household view when the package includes a partner - each earner keeps their own credit points
    */
-  private static async calculateAnnualSalaryILS(salaryData: SalaryData): Promise<number> {
-    let baseSalary = salaryData.baseSalary;
+  private static withHousehold(
+    calculation: CompensationCalculation,
+    packageData: CompensationPackage,
+    rules: TaxRules
+  ): CompensationCalculation {
+    if (!packageData.household) return calculation;
     
-    // Convert frequency to annual
-    if (salaryData.frequency === 'monthly') {
-      baseSalary = baseSalary * 12;
-    }
+    const { taxProfile, household } = packageData;
+    return {
+      ...calculation,
+      household: HouseholdCalculator.summarize([
+        HouseholdCalculator.calculatePackageEarner(calculation, taxProfile, rules),
+        HouseholdCalculator.calculatePartner(household, taxProfile, rules)
+      ])
+    };
+  }
+
+  /**
+   * Calculate total compensation for a contractor - the salary inputs are the fees invoiced before VAT
+   */
+  private static async calculateSelfEmployedCompensation(
+    packageData: CompensationPackage,
+    taxPoints: number,
+    exchangeRate: ExchangeRate,
+    rules: TaxRules
+  ): Promise<CompensationCalculation> {
+    const { selfEmployed } = packageData;
     
-    // Convert currency if needed
-    if (salaryData.currency === 'USD') {
-      baseSalary = await CurrencyConverter.convertUSDToILS(baseSalary);
+    // Section 102 is only available to employees - a contractor's grants are taxed as ordinary income under Section 3(i)
+    const equity = { ...packageData.equity, grants: (packageData.equity.grants || []).map(grant => ({ ...grant, taxTrack: 'section3i' as const })) };
+    const annualFeesILS = (await this.calculateSalaryComponentsILS(packageData.salary)).total;
+    const monthlyFeesILS = annualFeesILS / 12;
+    const annualExpenses = SelfEmployedCalculator.getMonthlyExpenses(selfEmployed, rules) * 12;
+    const annualBusinessIncome = Math.max(0, annualFeesILS - annualExpenses);
+    
+    const perksTax = BenefitsCalculator.calculatePerksTax(packageData.perks, annualBusinessIncome, taxPoints, rules);
+    const perksBreakdown = this.calculatePerksBreakdown(packageData.perks, perksTax, rules);
+    const { breakdown: equityBreakdown, annualIncome: equityIncome, exitDistribution: equityExitDistribution } =
+      await this.calculateEquityBreakdown(equity, annualBusinessIncome + perksTax.totalTaxableIncome, taxPoints, rules);
+    for (const component of Object.values(equityBreakdown.components)) {
+      if (component.method === 'equity_valuation') {
+        component.assumptions.unshift('Contractor: Section 102 does not apply, grants taxed under Section 3(i)');
+      }
     }
     
-    // Add bonus if present
-    if (salaryData.bonus) {
-      let bonusAmount = salaryData.bonus.amount;
-      if (salaryData.bonus.frequency === 'quarterly') {
-        bonusAmount = bonusAmount * 4;
+    const taxBreakdown = SelfEmployedCalculator.getAnnualTaxBreakdown(
+      monthlyFeesILS,
+      selfEmployed,
+      taxPoints,
+      rules,
+      { ...equityIncome, imputedIncome: perksTax.totalTaxableIncome },
+      packageData.taxProfile.residenceLocality
+    );
+    const vat = SelfEmployedCalculator.calculateVat(annualFeesILS, selfEmployed, rules);
+    const mandatoryPension = SelfEmployedCalculator.calculatePensionDeposit(annualBusinessIncome / 12, 0, rules).mandatoryDeposit * 12;
+    
+    // Fees net of expenses, taxes and the contractor's own deposits - like employee contributions, deposits are not counted again under benefits
+    const baseSalaryBreakdown: ComponentBreakdown = {
+      gross: annualFeesILS,
+      net: taxBreakdown.netSalary,
+      components: {
+        contractorFees: {
+          value: annualFeesILS,
+          method: 'self_employed_fees',
+          assumptions: [
+            selfEmployed.dealerType === 'murshe'
+              ? `Osek murshe: ₪${Math.round(vat.vatCharged).toLocaleString()} VAT charged on top and remitted, ₪${Math.round(vat.inputVat).toLocaleString()} reclaimed on expenses`
+              : `Osek patur: no VAT charged${vat.exceedsExemptCeiling ? `, but turnover is above the ₪${rules.vat.exemptDealerTurnoverCeiling.toLocaleString()} ceiling` : ''}`,
+            `Business expenses: ₪${Math.round(annualExpenses).toLocaleString()}`,
+            `Self-employed Bituach Leumi and health tax: ₪${Math.round(taxBreakdown.bituachLeumi + taxBreakdown.healthTax).toLocaleString()}, ${Math.round(rules.selfEmployed.bituachLeumiDeductibleShare * 100)}% of Bituach Leumi deductible`,
+            `Tax credit points: ${taxPoints}`,
+            'No severance, paid vacation, sick pay or recuperation pay'
+          ]
+        }
       }
-      
-      // Convert bonus currency if needed
-      if (salaryData.currency === 'USD') {
-        bonusAmount = await CurrencyConverter.convertUSDToILS(bonusAmount);
+    };
+    
+    // No employer-funded benefits - the components only document the self-funded deposits
+    const benefitsBreakdown: ComponentBreakdown = {
+      gross: 0,
+      net: 0,
+      components: {
+        pensionFund: {
+          value: taxBreakdown.pensionContributions,
+          method: 'self_funded_deposit',
+          assumptions: [
+            `${selfEmployed.pensionRate}% of business income, at least the ₪${Math.round(mandatoryPension).toLocaleString()} mandatory minimum`,
+            `Tax relief: ₪${Math.round(taxBreakdown.pensionTaxCredit).toLocaleString()} through the deduction and credit`
+          ]
+        },
+        studyFund: {
+          value: taxBreakdown.studyFundContributions,
+          method: 'self_funded_deposit',
+          assumptions: [
+            `${selfEmployed.studyFundRate}% of business income, deductible up to ${(rules.selfEmployed.studyFund.deductionRate * 100).toFixed(1)}%`
+          ]
+        }
       }
-      
-      baseSalary += bonusAmount;
+    };
+    
+    const employerCost = SelfEmployedCalculator.calculateClientCost(
+      annualFeesILS,
+      selfEmployed,
+      packageData.perks,
+      { annualEquityExpense: equityIncome.ordinaryIncome + equityIncome.capitalIncome },
+      rules
+    );
+    
+    const totalGrossCompensation = baseSalaryBreakdown.gross + benefitsBreakdown.gross + equityBreakdown.gross + perksBreakdown.gross;
+    const totalNetCompensation = baseSalaryBreakdown.net + benefitsBreakdown.net + equityBreakdown.net + perksBreakdown.net;
+    
+    return {
+      totalAnnualCompensation: totalGrossCompensation,
+      breakdown: {
+        baseSalary: baseSalaryBreakdown,
+        benefits: benefitsBreakdown,
+        equity: equityBreakdown,
+        perks: perksBreakdown
+      },
+      taxImplications: taxBreakdown,
+      payrollSimulation: SelfEmployedCalculator.simulateTaxAdvances(monthlyFeesILS, taxBreakdown, rules),
+      employerCost,
+      netCompensation: totalNetCompensation,
+      equityExitDistribution,
+      employmentType: 'selfEmployed',
+      personalCompany: SelfEmployedCalculator.calculatePersonalCompany(annualFeesILS, selfEmployed, taxBreakdown, rules),
+      taxYear: rules.year,
+      exchangeRates: {
+        usdToIls: exchangeRate,
+        timestamp: new Date()
+      },
+      calculatedAt: new Date()
+    };
+  }
+
+  /**
+   * Monthly base salary in the salary currency - converts annual and hourly amounts, excludes overtime and bonus
+   */
+  static getMonthlyBaseSalary(salaryData: SalaryData): number {
+    if (salaryData.frequency === 'annual') {
+      return salaryData.baseSalary / 12;
+    }
+    if (salaryData.frequency === 'hourly') {
+      return salaryData.baseSalary * (salaryData.hoursPerMonth || WORKING_HOURS_2024.fullTimeMonthlyHours);
+    }
+    return salaryData.baseSalary;
+  }
+
+  /**
+   * Calculate the annual salary components in ILS - pensionable base, global overtime and bonus
+   */
+  private static async calculateSalaryComponentsILS(salaryData: SalaryData): Promise<{
+    annualBase: number;
+    annualOvertime: number;
+    annualBonus: number;
+    total: number;
+  }> {
+    let annualBase = this.getMonthlyBaseSalary(salaryData) * 12;
+    let annualOvertime = (salaryData.globalOvertime || 0) * 12;
+    
+    let annualBonus = 0;
+    if (salaryData.bonus) {
+      annualBonus = salaryData.bonus.amount * (salaryData.bonus.frequency === 'quarterly' ? 4 : 1);
+    }
+    
+    // Convert currency if needed
+    if (salaryData.currency === 'USD') {
+      annualBase = await CurrencyConverter.convertUSDToILS(annualBase);
+      annualOvertime = await CurrencyConverter.convertUSDToILS(annualOvertime);
+      annualBonus = await CurrencyConverter.convertUSDToILS(annualBonus);
     }
     
-    return baseSalary;
+    return {
+      annualBase,
+      annualOvertime,
+      annualBonus,
+      total: annualBase + annualOvertime + annualBonus
+    };
   }
 
   /**
    * Calculate base salary breakdown
    */
-  private static async calculateBaseSalaryBreakdown(salaryData: SalaryData): Promise<ComponentBreakdown> {
-    const annualSalaryILS = await this.calculateAnnualSalaryILS(salaryData);
-    const monthlySalaryILS = annualSalaryILS / 12;
+  private static async calculateBaseSalaryBreakdown(
+    salaryData: SalaryData,
+    taxPoints: number,
+    pensionEmployeeRate: number,
+    rules: TaxRules,
+    residenceLocality: string | undefined
+  ): Promise<ComponentBreakdown> {
+    const { annualBase, annualOvertime, annualBonus, total: annualSalaryILS } = await this.calculateSalaryComponentsILS(salaryData);
+    const annualBaseSalaryILS = annualSalaryILS - annualBonus;
+    
+    // Calculate net base salary after taxes - pension and study fund are deducted from the base only
+    const netSalaryResult = TaxCalculator.getNetSalary(annualBase / 12, taxPoints, rules, pensionEmployeeRate, residenceLocality);
+    const pensionTaxBenefit = TaxCalculator.calculatePensionTaxBenefit(annualBase / 12, taxPoints, rules, pensionEmployeeRate);
+    
+    // Global overtime is stacked on top of the base salary at the marginal rates
+    const overtimeTax = annualOvertime > 0 ?
+      TaxCalculator.calculateStackedTax(annualBase, annualOvertime, taxPoints, true, rules).total +
+      TaxCalculator.calculateSurtax(annualBaseSalaryILS, 0, rules) - TaxCalculator.calculateSurtax(annualBase, 0, rules) : 0;
     
-    // Calculate net salary after taxes
-    const netSalaryResult = TaxCalculator.getNetSalary(monthlySalaryILS);
-    const annualNetSalary = netSalaryResult.netSalary * 12;
+    // Bonus is stacked on top of the base salary and overtime at the marginal rates
+    const bonusTax = annualBonus > 0 ?
+      TaxCalculator.calculateStackedTax(annualBaseSalaryILS, annualBonus, taxPoints, true, rules).total +
+      TaxCalculator.calculateSurtax(annualSalaryILS, 0, rules) - TaxCalculator.calculateSurtax(annualBaseSalaryILS, 0, rules) : 0;
+    
+    // Recuperation pay and taxable holiday gifts are stacked on top of base salary and bonus
+    const recuperationPay = BenefitsCalculator.calculateRecuperationPay(salaryData.seniorityYears, rules);
+    const recuperationTax = TaxCalculator.calculateStackedTax(annualSalaryILS, recuperationPay.annualAmount, taxPoints, true, rules).total +
+      TaxCalculator.calculateSurtax(annualSalaryILS + recuperationPay.annualAmount, 0, rules) - TaxCalculator.calculateSurtax(annualSalaryILS, 0, rules);
+    const holidayGifts = BenefitsCalculator.calculateHolidayGifts(salaryData.holidayGifts, rules);
+    const giftsTax = TaxCalculator.calculateImputedIncomeTax(annualSalaryILS + recuperationPay.annualAmount, holidayGifts.taxableValue, taxPoints, rules);
+    
+    const annualNetSalary = netSalaryResult.netSalary * 12 + annualOvertime - overtimeTax + annualBonus - bonusTax +
+      recuperationPay.annualAmount - recuperationTax + holidayGifts.annualValue - giftsTax;
     
     const components: { [key: string]: { value: number; method: string; assumptions: string[] } } = {
       baseSalary: {
@@ -112,57 +362,162 @@ export class CompensationCalculator {
         method: 'annual_salary_calculation',
         assumptions: [
           `Original currency: ${salaryData.currency}`,
-          `Frequency: ${salaryData.frequency}`,
-          salaryData.currency === 'USD' ? 'Converted to ILS using current exchange rate' : 'Already in ILS'
+          salaryData.frequency === 'hourly'
+            ? `Hourly: ${salaryData.baseSalary} x ${salaryData.hoursPerMonth || WORKING_HOURS_2024.fullTimeMonthlyHours} hours a month`
+            : `Frequency: ${salaryData.frequency}`,
+          salaryData.currency === 'USD' ? 'Converted to ILS using current exchange rate' : 'Already in ILS',
+          `Tax credit points: ${taxPoints}`,
+          `Pension tax relief: ₪${Math.round(pensionTaxBenefit.totalSaving * 12).toLocaleString()} of your ₪${Math.round(pensionTaxBenefit.contribution * 12).toLocaleString()} annual pension contribution is paid by the state`
         ]
       }
     };
     
+    if (annualOvertime > 0) {
+      components.globalOvertime = {
+        value: annualOvertime,
+        method: 'global_overtime',
+        assumptions: [
+          'Global overtime (sh\'ot nosafot globaliot)',
+          'Not part of the pension and severance base',
+          `Taxed at ${((overtimeTax / annualOvertime) * 100).toFixed(1)}% on top of base salary`
+        ]
+      };
+    }
+    
     if (salaryData.bonus) {
-      const bonusMultiplier = salaryData.bonus.frequency === 'quarterly' ? 4 : 1;
-      let annualBonus = salaryData.bonus.amount * bonusMultiplier;
-      
-      if (salaryData.currency === 'USD') {
-        annualBonus = await CurrencyConverter.convertUSDToILS(annualBonus);
-      }
-      
       components.bonus = {
         value: annualBonus,
         method: 'bonus_calculation',
         assumptions: [
           `${salaryData.bonus.frequency} bonus`,
-          salaryData.bonus.guaranteed ? 'Guaranteed bonus' : 'Performance-based bonus'
+          salaryData.bonus.guaranteed ? 'Guaranteed bonus' : 'Performance-based bonus',
+          `Taxed at ${annualBonus > 0 ? ((bonusTax / annualBonus) * 100).toFixed(1) : '0.0'}% on top of base salary, not pensionable`
+        ]
+      };
+    }
+    
+    if (recuperationPay.annualAmount > 0) {
+      components.recuperationPay = {
+        value: recuperationPay.annualAmount,
+        method: 'statutory_recuperation_pay',
+        assumptions: [
+          `Year ${Math.max(1, Math.ceil(salaryData.seniorityYears ?? 1))} of service: ${recuperationPay.days} days at ₪${recuperationPay.dailyRate}`,
+          `Taxed at ${((recuperationTax / recuperationPay.annualAmount) * 100).toFixed(1)}% on top of salary`
+        ]
+      };
+    }
+    
+    if (holidayGifts.annualValue > 0) {
+      components.holidayGifts = {
+        value: holidayGifts.annualValue,
+        method: 'holiday_gifts',
+        assumptions: [
+          `Rosh Hashana ₪${salaryData.holidayGifts?.roshHashana ?? 0}, Passover ₪${salaryData.holidayGifts?.passover ?? 0}`,
+          holidayGifts.taxableValue > 0
+            ? `₪${holidayGifts.taxableValue.toLocaleString()} above the ₪${rules.holidayGifts.exemptThresholdPerGift} per-gift threshold taxed: ₪${Math.round(giftsTax).toLocaleString()}`
+            : `Tax-exempt up to ₪${rules.holidayGifts.exemptThresholdPerGift} per gift`
         ]
       };
     }
     
     return {
-      gross: annualSalaryILS,
+      gross: annualSalaryILS + recuperationPay.annualAmount + holidayGifts.annualValue,
       net: annualNetSalary,
       components
     };
   }
 
   /**
-   * Calculate benefits breakdown
+   * Simulate the tax year's payroll with cumulative withholding (te'um mas), paying bonuses and payroll-taxed RSU vests in the months they occur
+   */
+  private static async calculatePayrollSimulation(
+    packageData: CompensationPackage,
+    taxPoints: number,
+    rules: TaxRules
+  ): Promise<PayrollSimulation> {
+    const { salary, equity } = packageData;
+    const { annualBase, annualOvertime } = await this.calculateSalaryComponentsILS(salary);
+    
+    const bonusByMonth: { [month: number]: number } = {};
+    if (salary.bonus && salary.bonus.amount > 0) {
+      const bonusPayment = salary.currency === 'USD' ?
+        await CurrencyConverter.convertUSDToILS(salary.bonus.amount) : salary.bonus.amount;
+      const bonusMonths = salary.bonus.frequency === 'quarterly' ? [3, 6, 9, 12] : [12];
+      
+      for (const month of bonusMonths) {
+        bonusByMonth[month] = bonusPayment;
+      }
+    }
+    
+    // Non-Israeli plan RSUs are taxed through payroll when they vest
+    const equityIncomeByMonth: { [month: number]: number } = {};
+    for (const grant of equity.grants.filter(g => g.type === 'RSU' && g.taxTrack === 'non-israeli')) {
+      for (const event of EquityValuator.calculateVestingSchedule(grant)) {
+        if (event.date.getFullYear() !== rules.year || event.estimatedValue <= 0) continue;
+        
+        const month = event.date.getMonth() + 1;
+        const vestValueILS = await CurrencyConverter.convertUSDToILS(event.estimatedValue);
+        equityIncomeByMonth[month] = (equityIncomeByMonth[month] || 0) + vestValueILS;
+      }
+    }
+    
+    const monthInputs = PayrollSimulator.buildMonthInputs(annualBase / 12, bonusByMonth, equityIncomeByMonth, annualOvertime / 12);
+    return PayrollSimulator.simulateYear(
+      monthInputs,
+      taxPoints,
+      'cumulative',
+      rules,
+      packageData.taxProfile.residenceLocality,
+      packageData.benefits.pensionFund.employeeContribution / 100
+    );
+  }
+
+  /**
+   * Calculate benefits breakdown, with imputed income taxed on top of all annual taxable salary
    */
-  private static calculateBenefitsBreakdown(monthlySalaryILS: number, benefitsData: BenefitsData): ComponentBreakdown {
-    return BenefitsCalculator.calculateComprehensiveBenefits(monthlySalaryILS, benefitsData);
+  private static calculateBenefitsBreakdown(
+    monthlySalaryILS: number,
+    annualTaxableSalaryILS: number,
+    benefitsData: BenefitsData,
+    taxPoints: number,
+    rules: TaxRules
+  ): ComponentBreakdown {
+    return BenefitsCalculator.calculateComprehensiveBenefits(monthlySalaryILS, benefitsData, undefined, taxPoints, rules, annualTaxableSalaryILS);
   }
 
   /**
-   * Calculate equity breakdown
+   * Calculate equity breakdown, net of the surtax the equity adds on top of all other annual taxable income
    */
-  private static async calculateEquityBreakdown(equityData: EquityData): Promise<ComponentBreakdown> {
+  private static async calculateEquityBreakdown(
+    equityData: EquityData,
+    annualTaxableIncome: number,
+    taxPoints: number,
+    rules: TaxRules
+  ): Promise<{
+    breakdown: ComponentBreakdown;
+    annualIncome: { ordinaryIncome: number; capitalIncome: number };
+    exitDistribution?: { p10: number; p50: number; p90: number };
+  }> {
     if (!equityData.grants || equityData.grants.length === 0) {
       return {
-        gross: 0,
-        net: 0,
-        components: {}
+        breakdown: {
+          gross: 0,
+          net: 0,
+          components: {}
+        },
+        annualIncome: { ordinaryIncome: 0, capitalIncome: 0 }
       };
     }
     
-    const equitySummary = await EquityValuator.generateEquitySummary(equityData.grants);
+    const equitySummary = await EquityValuator.generateEquitySummary(equityData.grants, annualTaxableIncome, taxPoints, rules);
+    const annualEquityIncome = equitySummary.annualOrdinaryIncome + equitySummary.annualCapitalIncome;
+    
+    // Surtax attributable to equity is the increase over the surtax on the income below it, for each year of the vesting period
+    const annualEquitySurtax = 
+      TaxCalculator.calculateSurtax(annualTaxableIncome + equitySummary.annualOrdinaryIncome, equitySummary.annualCapitalIncome, rules) -
+      TaxCalculator.calculateSurtax(annualTaxableIncome, 0, rules);
+    const vestingYears = annualEquityIncome > 0 ? equitySummary.totalCurrentValue / annualEquityIncome : 0;
+    const equitySurtax = annualEquitySurtax * vestingYears;
     
     const components: { [key: string]: { value: number; method: string; assumptions: string[] } } = {};
     
@@ -178,15 +533,15 @@ export class CompensationCalculator {
       const assumptions: string[] = [];
       
       if (type === 'RSU') {
-        const rsuValuation = await EquityValuator.valueRSUs(grants);
+        const rsuValuation = await EquityValuator.valueRSUs(grants, annualTaxableIncome, taxPoints, rules);
         typeValue = rsuValuation.currentValue;
         assumptions.push(...rsuValuation.assumptions);
       } else if (type === 'ISO' || type === 'NQSO') {
-        const optionValuation = await EquityValuator.valueStockOptions(grants);
+        const optionValuation = await EquityValuator.valueStockOptions(grants, annualTaxableIncome, taxPoints, rules);
         typeValue = optionValuation.currentValue;
         assumptions.push(...optionValuation.assumptions);
       } else if (type === 'ESPP') {
-        const esppValuation = await EquityValuator.valueESPP(grants);
+        const esppValuation = await EquityValuator.valueESPP(grants, annualTaxableIncome, taxPoints, rules);
         typeValue = esppValuation.currentValue;
         assumptions.push(...esppValuation.assumptions);
       }
@@ -200,34 +555,73 @@ export class CompensationCalculator {
       }
     }
     
+    if (equitySurtax > 0) {
+      components.surtax = {
+        value: equitySurtax,
+        method: 'surtax_deduction',
+        assumptions: [
+          `Surtax of ₪${Math.round(annualEquitySurtax).toLocaleString()} per year on equity income above the ₪${rules.surtax.annualThreshold.toLocaleString()} annual threshold`
+        ]
+      };
+    }
+    
     return {
-      gross: equitySummary.totalCurrentValue,
-      net: equitySummary.totalPostTaxValue,
-      components
+      breakdown: {
+        gross: equitySummary.totalCurrentValue,
+        net: Math.max(0, equitySummary.totalPostTaxValue - equitySurtax),
+        components
+      },
+      annualIncome: {
+        ordinaryIncome: equitySummary.annualOrdinaryIncome,
+        capitalIncome: equitySummary.annualCapitalIncome
+      },
+      exitDistribution: equitySummary.exitDistribution
     };
   }
 
   /**
-   * Calculate perks breakdown
+   * Calculate perks breakdown, net of the employee's tax on taxable perks
    */
-  private static calculatePerksBreakdown(perksData: PerksData): ComponentBreakdown {
-    const perksValue = BenefitsCalculator.calculatePerksValue(perksData);
+  private static calculatePerksBreakdown(
+    perksData: PerksData,
+    perksTax: { lines: PerkTaxLine[]; totalEmployeeTax: number },
+    rules: TaxRules
+  ): ComponentBreakdown {
+    const perksValue = BenefitsCalculator.calculatePerksValue(perksData, rules);
     
     const components: { [key: string]: { value: number; method: string; assumptions: string[] } } = {};
     
-    for (const [perkName, value] of Object.entries(perksValue.breakdown)) {
-      if (value > 0) {
-        components[perkName] = {
-          value,
-          method: 'annual_value_calculation',
-          assumptions: ['Valued at market rate or stipend amount']
-        };
+    for (const line of perksTax.lines) {
+      const assumptions = ['Valued at market rate or stipend amount'];
+      
+      if (line.perk === 'companyCar' && perksData.companyCar) {
+        const car = perksData.companyCar;
+        const carBenefit = TaxCalculator.calculateCarBenefit(car, rules);
+        assumptions.splice(0, 1,
+          `List price: ₪${Math.round(carBenefit.listPrice).toLocaleString()}${car.valuation === 'priceGroup' ? ` (price group ${car.priceGroup})` : ''}`,
+          `Car benefit: ₪${Math.round(carBenefit.monthlyBenefit).toLocaleString()}/month${carBenefit.greenReduction > 0 ? `, less ₪${Math.round(carBenefit.greenReduction).toLocaleString()} ${car.fuelType} reduction` : ''}`,
+          car.fuelCard ? `Fuel card: ₪${car.monthlyFuelValue.toLocaleString()}/month` : 'No fuel card'
+        );
       }
+      
+      if (line.treatment === 'taxable') {
+        assumptions.push(`Taxable: ₪${Math.round(line.employeeTax).toLocaleString()} tax at your marginal rates, net ₪${Math.round(line.value - line.employeeTax).toLocaleString()}`);
+      } else if (line.treatment === 'grossedUp') {
+        assumptions.push(`Grossed up: employer pays the ₪${Math.round(line.employerGrossUp).toLocaleString()} tax`);
+      } else {
+        assumptions.push('Tax-exempt');
+      }
+      
+      components[line.perk] = {
+        value: line.value,
+        method: line.perk === 'companyCar' ? 'car_benefit' : 'annual_value_calculation',
+        assumptions
+      };
     }
     
     return {
       gross: perksValue.totalAnnualValue,
-      net: perksValue.totalAnnualValue, // Perks typically not taxed directly
+      net: perksValue.totalAnnualValue - perksTax.totalEmployeeTax,
       components
     };
   }
@@ -321,6 +715,13 @@ export class CompensationCalculator {
         if (grant.currentStockPrice && grant.currentStockPrice < 0) {
           errors.push(`Current stock price must be positive`);
         }
+        
+        // The grant-date price splits the gain between income and capital gains, so today's price is no stand-in;
+        // contractors are taxed under Section 3(i), where it plays no part
+        if (packageData.employmentType !== 'selfEmployed' && grant.type !== 'ESPP' && grant.companyStage === 'public' &&
+            (grant.taxTrack || 'section102-capital') === 'section102-capital' && grant.grantDatePrice === undefined) {
+          errors.push(`Share price at grant is required for listed grants on the Section 102 capital gains track`);
+        }
       }
     }
     
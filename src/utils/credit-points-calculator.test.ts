@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { TAX_RULES_2024, TAX_RULES_2025 } from '@/constants/tax-rules';
+import { TaxProfile } from '@/types';
+import { CreditPointsCalculator } from './credit-points-calculator';
+
+const rules = TAX_RULES_2024;
+
+const profile = (overrides: Partial<TaxProfile> = {}): TaxProfile => ({
+  ...CreditPointsCalculator.createDefaultProfile(),
+  ...overrides
+});
+
+// Born in the tax year, aged 3 and aged 14 in 2024
+const children = [{ birthYear: 2024 }, { birthYear: 2021 }, { birthYear: 2010 }];
+
+describe('CreditPointsCalculator', () => {
+  it('gives the default profile the resident points only', () => {
+    const points = CreditPointsCalculator.calculateCreditPoints(profile(), rules);
+
+    expect(points.totalPoints).toBe(2.25);
+    expect(points.childPoints).toBe(0);
+  });
+
+  it('gives children points by age, with older children counting for the mother only', () => {
+    const mother = CreditPointsCalculator.calculateCreditPoints(profile({ gender: 'female', children }), rules);
+    const father = CreditPointsCalculator.calculateCreditPoints(profile({ children }), rules);
+
+    expect(mother.childPoints).toBe(1.5 + 2.5 + 1);
+    expect(mother.totalPoints).toBe(2.25 + 0.5 + 5);
+    expect(father.childPoints).toBe(1.5 + 2.5);
+    expect(father.totalPoints).toBe(2.25 + 4);
+  });
+
+  it('averages new immigrant and discharged soldier points over the months of the tax year', () => {
+    const points = CreditPointsCalculator.calculateCreditPoints(profile({
+      newImmigrant: { arrivalYear: 2023, arrivalMonth: 1 },
+      dischargedSoldier: { dischargeYear: 2021, dischargeMonth: 6, serviceMonths: 24 }
+    }), rules);
+
+    // Months 13-18 after aliyah at 3 points, then 19-24 at 2; months 31-36 after discharge at 2 points, then none
+    const component = (label: string) => points.components.find(c => c.label === label)?.points;
+    expect(component('New immigrant (oleh)')).toBeCloseTo((6 * 3 + 6 * 2) / 12);
+    expect(component('Discharged soldier')).toBeCloseTo((6 * 2) / 12);
+  });
+
+  it('gives degree points only in the year after completion', () => {
+    const graduate = profile({ academicDegree: { level: 'bachelor', completionYear: 2023 } });
+
+    expect(CreditPointsCalculator.calculateCreditPoints(graduate, rules).totalPoints).toBe(3.25);
+    expect(CreditPointsCalculator.calculateCreditPoints(graduate, TAX_RULES_2025).totalPoints).toBe(2.25);
+  });
+});
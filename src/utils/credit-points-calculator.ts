@@ -0,0 +1,104 @@
+import { TaxProfile, CreditPointsBreakdown, TaxRules } from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
+
+export class CreditPointsCalculator {
+  /**
+   * Derive total credit points (nekudot zikui) for a tax year from a personal tax profile
+   */
+  static calculateCreditPoints(profile: TaxProfile, rules: TaxRules = getTaxRules()): CreditPointsBreakdown {
+    const taxYear = rules.year;
+    const creditRules = rules.creditPoints;
+    const components: { label: string; points: number }[] = [];
+    let childPoints = 0;
+
+    components.push({ label: 'Israeli resident', points: creditRules.resident });
+
+    if (profile.gender === 'female') {
+      components.push({ label: 'Woman', points: creditRules.woman });
+    }
+
+    // Children - points depend on the child's age during the tax year
+    const childTable = profile.gender === 'female'
+      ? creditRules.childrenByAge.mother
+      : creditRules.childrenByAge.father;
+
+    for (const child of profile.children) {
+      const age = taxYear - child.birthYear;
+      const tier = childTable.find(t => age >= t.minAge && age <= t.maxAge);
+      if (tier) {
+        components.push({ label: `Child born ${child.birthYear} (age ${age})`, points: tier.points });
+        childPoints += tier.points;
+      }
+    }
+
+    // New immigrant - monthly points averaged over the tax year
+    if (profile.newImmigrant) {
+      const { arrivalYear, arrivalMonth } = profile.newImmigrant;
+      const points = this.averageMonthlyPoints(taxYear, (monthIndex) => {
+        const monthsSinceArrival = monthIndex - (arrivalYear * 12 + arrivalMonth) + 1;
+        const tier = creditRules.newImmigrant.find(
+          t => monthsSinceArrival >= t.fromMonth && monthsSinceArrival <= t.toMonth
+        );
+        return tier ? tier.points : 0;
+      });
+      if (points > 0) {
+        components.push({ label: 'New immigrant (oleh)', points });
+      }
+    }
+
+    // Discharged soldier - monthly points for a fixed period after discharge
+    if (profile.dischargedSoldier) {
+      const soldierRules = creditRules.dischargedSoldier;
+      const { dischargeYear, dischargeMonth, serviceMonths } = profile.dischargedSoldier;
+
+      if (serviceMonths >= soldierRules.minServiceMonths) {
+        const monthlyPoints = serviceMonths >= soldierRules.fullServiceMonths ? soldierRules.fullServicePoints : soldierRules.partialServicePoints;
+        const points = this.averageMonthlyPoints(taxYear, (monthIndex) => {
+          const monthsSinceDischarge = monthIndex - (dischargeYear * 12 + dischargeMonth);
+          return monthsSinceDischarge >= 1 && monthsSinceDischarge <= soldierRules.benefitMonths ? monthlyPoints : 0;
+        });
+        if (points > 0) {
+          components.push({ label: 'Discharged soldier', points });
+        }
+      }
+    }
+
+    // Academic degree - claimed in the tax year following completion
+    if (profile.academicDegree && taxYear === profile.academicDegree.completionYear + 1) {
+      components.push({
+        label: `Academic degree (${profile.academicDegree.level})`,
+        points: creditRules.academicDegree[profile.academicDegree.level]
+      });
+    }
+
+    const totalPoints = components.reduce((sum, component) => sum + component.points, 0);
+
+    return {
+      taxYear,
+      totalPoints,
+      childPoints,
+      components
+    };
+  }
+
+  /**
+   * Average a per-month point entitlement over the 12 months of a tax year
+   */
+  private static averageMonthlyPoints(taxYear: number, pointsForMonth: (monthIndex: number) => number): number {
+    let total = 0;
+    for (let month = 1; month <= 12; month++) {
+      total += pointsForMonth(taxYear * 12 + month);
+    }
+    return total / 12;
+  }
+
+  /**
+   * Default profile - equivalent to the single resident default used before profiles existed
+   */
+  static createDefaultProfile(): TaxProfile {
+    return {
+      gender: 'male',
+      children: []
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { FundingRound } from '@/types';
+import { DilutionProjector } from './dilution-projector';
+
+const round = (overrides: Partial<FundingRound> = {}): FundingRound => ({
+  id: 'b',
+  name: 'Series B',
+  monthsFromNow: 12,
+  raiseAmount: 25000000,
+  preMoneyValuation: 100000000,
+  optionPoolTopUp: 0,
+  ...overrides
+});
+
+describe('DilutionProjector', () => {
+  it('prices a round without a pool top-up at the pre-money value of the existing shares', () => {
+    const result = DilutionProjector.applyRound(10000000, round());
+
+    expect(result.poolShares).toBe(0);
+    expect(result.sharePrice).toBeCloseTo(10);
+    expect(result.investorShares).toBeCloseTo(2500000);
+    expect(result.sharesOutstanding).toBeCloseTo(12500000);
+  });
+
+  it('sizes the pool top-up as a share of post-money and creates it before the round', () => {
+    const result = DilutionProjector.applyRound(9000000, round({ optionPoolTopUp: 10 }));
+
+    // The pool is 10% and the investors 20% of the post-money shares, so existing holders keep 70%
+    expect(result.poolShares / result.sharesOutstanding).toBeCloseTo(0.1);
+    expect(result.investorShares / result.sharesOutstanding).toBeCloseTo(0.2);
+    expect(9000000 / result.sharesOutstanding).toBeCloseTo(0.7);
+
+    // The top-up lowers the price the investors pay, not their share of the company
+    expect(result.sharePrice).toBeLessThan(100000000 / 9000000);
+    expect(result.sharePrice * result.investorShares).toBeCloseTo(25000000);
+  });
+
+  it('projects shrinking ownership through the rounds in date order', () => {
+    const start = new Date(2026, 0, 1);
+    const projection = DilutionProjector.project(100000, 5, {
+      fullyDilutedShares: 10000000,
+      rounds: [
+        round({ id: 'c', name: 'Series C', monthsFromNow: 30, preMoneyValuation: 300000000, optionPoolTopUp: 5 }),
+        round({ optionPoolTopUp: 5 })
+      ]
+    }, start);
+
+    expect(projection.map(point => point.roundName)).toEqual(['Today', 'Series B', 'Series C']);
+    expect(projection[0].ownership).toBeCloseTo(0.01);
+    expect(projection[1].ownership).toBeLessThan(projection[0].ownership);
+    expect(projection[2].ownership).toBeLessThan(projection[1].ownership);
+
+    expect(DilutionProjector.getPointAt(projection, new Date(2026, 6, 1)).roundName).toBe('Today');
+    expect(DilutionProjector.getPointAt(projection, new Date(2028, 0, 1)).roundName).toBe('Series B');
+  });
+});
@@ -0,0 +1,68 @@
+import { DilutionPlan, DilutionPoint, FundingRound } from '@/types';
+
+export class DilutionProjector {
+  /**
+   * Apply one priced round - the pool top-up is created before the round, so only existing holders are diluted by it
+   */
+  static applyRound(sharesOutstanding: number, round: FundingRound): {
+    poolShares: number;
+    investorShares: number;
+    sharesOutstanding: number;
+    sharePrice: number;
+  } {
+    const postMoneyFactor = round.preMoneyValuation > 0 ? 1 + round.raiseAmount / round.preMoneyValuation : 1;
+    const poolRate = Math.min(Math.max(0, round.optionPoolTopUp / 100) * postMoneyFactor, 0.99);
+
+    // Pool is a share of post-money shares: pool = rate * (existing + pool) * (1 + raise / pre-money)
+    const poolShares = sharesOutstanding * poolRate / (1 - poolRate);
+    const preMoneyShares = sharesOutstanding + poolShares;
+    const sharePrice = preMoneyShares > 0 ? round.preMoneyValuation / preMoneyShares : 0;
+    const investorShares = sharePrice > 0 ? round.raiseAmount / sharePrice : 0;
+
+    return {
+      poolShares,
+      investorShares,
+      sharesOutstanding: preMoneyShares + investorShares,
+      sharePrice
+    };
+  }
+
+  /**
+   * Project a grant's ownership and the share price through each expected round, starting from today
+   */
+  static project(grantShares: number, currentSharePrice: number, plan: DilutionPlan, startDate: Date = new Date()): DilutionPoint[] {
+    let sharesOutstanding = plan.fullyDilutedShares;
+    const points: DilutionPoint[] = [{
+      date: startDate,
+      roundName: 'Today',
+      sharesOutstanding,
+      ownership: sharesOutstanding > 0 ? grantShares / sharesOutstanding : 0,
+      sharePrice: currentSharePrice
+    }];
+
+    const rounds = [...plan.rounds].sort((a, b) => a.monthsFromNow - b.monthsFromNow);
+    for (const round of rounds) {
+      const result = this.applyRound(sharesOutstanding, round);
+      sharesOutstanding = result.sharesOutstanding;
+
+      const date = new Date(startDate);
+      date.setMonth(date.getMonth() + round.monthsFromNow);
+      points.push({
+        date,
+        roundName: round.name,
+        sharesOutstanding,
+        ownership: sharesOutstanding > 0 ? grantShares / sharesOutstanding : 0,
+        sharePrice: result.sharePrice
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Latest projected point on or before a date
+   */
+  static getPointAt(projection: DilutionPoint[], date: Date): DilutionPoint {
+    return projection.filter(point => point.date <= date).pop() || projection[0];
+  }
+}
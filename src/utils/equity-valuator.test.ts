@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { TAX_RULES_2024 } from '@/constants/tax-rules';
+import { EquityGrant } from '@/types';
+import { EquityValuator } from './equity-valuator';
+import { TaxCalculator } from './tax-calculator';
+
+const rules = TAX_RULES_2024;
+
+const grant = (overrides: Partial<EquityGrant> = {}): EquityGrant => ({
+  id: 'g',
+  type: 'RSU',
+  amount: 1000,
+  grantDate: new Date(2024, 0, 1),
+  vestingStart: new Date(2024, 0, 1),
+  vestingSchedule: { type: 'standard', totalYears: 4, cliffMonths: 12, frequency: 'quarterly' },
+  currentStockPrice: 100,
+  grantDatePrice: 25,
+  companyStage: 'public',
+  ...overrides
+});
+
+describe('EquityValuator', () => {
+  describe('calculateTrackTaxSplit', () => {
+    it('taxes the grant-date value as income and the gain above it as capital gains on the Section 102 capital track', () => {
+      const split = EquityValuator.calculateTrackTaxSplit(grant(), 400000, 100000, 0, 2.25, rules);
+
+      expect(split.ordinaryIncome).toBe(100000);
+      expect(split.capitalGain).toBe(300000);
+      expect(split.capitalGainsTax).toBeCloseTo(300000 * 0.25);
+    });
+
+    it('taxes the whole gain as income when sold before the trustee period ends', () => {
+      const split = EquityValuator.calculateTrackTaxSplit(grant({ holdingMonthsAtSale: 12 }), 400000, 100000, 0, 2.25, rules);
+
+      expect(split.ordinaryIncome).toBe(400000);
+      expect(split.capitalGain).toBe(0);
+    });
+
+    it('skips Bituach Leumi and health tax on the Section 102 ordinary track but not under Section 3(i)', () => {
+      const ordinaryTrack = EquityValuator.calculateTrackTaxSplit(grant({ taxTrack: 'section102-ordinary' }), 400000, 100000, 0, 2.25, rules);
+      const section3i = EquityValuator.calculateTrackTaxSplit(grant({ taxTrack: 'section3i' }), 400000, 100000, 0, 2.25, rules);
+
+      expect(ordinaryTrack.ordinaryIncome).toBe(400000);
+      expect(section3i.ordinaryIncome).toBe(400000);
+      expect(ordinaryTrack.ordinaryIncomeTax).toBeCloseTo(TaxCalculator.calculateStackedTax(0, 100000, 2.25, false, rules).total * 4);
+      expect(section3i.ordinaryIncomeTax).toBeCloseTo(TaxCalculator.calculateStackedTax(0, 100000, 2.25, true, rules).total * 4);
+    });
+
+    it('stacks the yearly income on top of the salary at the marginal rates', () => {
+      const onTopOfSalary = EquityValuator.calculateTrackTaxSplit(grant({ taxTrack: 'section3i' }), 400000, 0, 360000, 2.25, rules);
+      const withoutSalary = EquityValuator.calculateTrackTaxSplit(grant({ taxTrack: 'section3i' }), 400000, 0, 0, 2.25, rules);
+
+      expect(onTopOfSalary.ordinaryIncomeTax).toBeCloseTo(TaxCalculator.calculateStackedTax(360000, 100000, 2.25, true, rules).total * 4);
+      expect(onTopOfSalary.ordinaryIncomeTax).toBeGreaterThan(withoutSalary.ordinaryIncomeTax);
+    });
+  });
+});
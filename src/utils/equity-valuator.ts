@@ -1,19 +1,40 @@
-import { EquityValuation, EquityGrant, VestingEvent } from '@/types';
+import { CapTable, DilutionPlan, EquityValuation, EquityGrant, EquityTaxTrack, PriceSimulationInputs, VestingEvent, TaxRules } from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
 import { TaxCalculator } from './tax-calculator';
 import { CurrencyConverter } from './currency-converter';
+import { OptionPricer } from './option-pricing';
+import { ExitWaterfall } from './exit-waterfall';
+import { DilutionProjector } from './dilution-projector';
+import { ExitScenarioSimulator } from './exit-scenario-simulator';
+import { PriceSimulator } from './price-simulator';
+
+const TAX_TRACK_LABELS: Record<EquityTaxTrack, string> = {
+  'section102-capital': 'Section 102 capital gains track',
+  'section102-ordinary': 'Section 102 ordinary income track',
+  'section3i': 'Section 3(i)',
+  'non-israeli': 'Non-Israeli plan'
+};
 
 export class EquityValuator {
   /**
-   * Value RSU grants (Restricted Stock Units)
+   * Value RSU grants (Restricted Stock Units), with ordinary income stacked on top of annual salary
    */
-  static async valueRSUs(grants: EquityGrant[]): Promise<EquityValuation> {
+  static async valueRSUs(
+    grants: EquityGrant[],
+    annualSalaryILS: number = 0,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): Promise<EquityValuation> {
     let totalCurrentValue = 0;
     let totalPostTaxValue = 0;
+    const riskAdjusted = { value: 0, p10: 0, p50: 0, p90: 0, hasScenarios: false };
+    let annualOrdinaryIncome = 0;
+    let annualCapitalIncome = 0;
     const allVestingEvents: VestingEvent[] = [];
     const assumptions: string[] = [];
 
     for (const grant of grants.filter(g => g.type === 'RSU')) {
-      const currentStockPrice = grant.currentStockPrice || 0;
+      const currentStockPrice = this.getSharePrice(grant);
       const grantValue = grant.amount * currentStockPrice;
       
       // Convert to ILS if needed
@@ -21,95 +42,125 @@ export class EquityValuator {
         await CurrencyConverter.convertUSDToILS(grantValue) : 0;
       
       totalCurrentValue += grantValueILS;
+      await this.addRiskAdjustedValue(riskAdjusted, grant, grantValueILS, assumptions);
       
       // Calculate vesting schedule
       const vestingEvents = this.calculateVestingSchedule(grant);
       allVestingEvents.push(...vestingEvents);
       
-      // For RSUs, tax is paid on vesting at ordinary income rates + capital gains on any appreciation
-      const taxableValueAtVesting = grantValueILS;
-      const capitalGains = Math.max(0, grantValueILS - taxableValueAtVesting);
-      const capitalGainsTax = TaxCalculator.calculateCapitalGains(capitalGains);
+      // Grant-date value of a listed company's shares is taxed as income under the 102 capital track
+      const grantDateValueILS = grantValueILS > 0 ?
+        Math.min(grantValueILS, grantValueILS * this.getGrantDatePrice(grant) / currentStockPrice) : 0;
       
-      // Simplified: assume average tax rate of 35% on ordinary income (RSUs taxed as salary)
-      const ordinaryIncomeTax = taxableValueAtVesting * 0.35;
-      const totalTax = ordinaryIncomeTax + capitalGainsTax;
+      const taxSplit = this.calculateTrackTaxSplit(grant, grantValueILS, grantDateValueILS, annualSalaryILS + annualOrdinaryIncome, taxPoints, rules);
       
-      totalPostTaxValue += Math.max(0, grantValueILS - totalTax);
+      totalPostTaxValue += Math.max(0, grantValueILS - taxSplit.ordinaryIncomeTax - taxSplit.capitalGainsTax);
+      annualOrdinaryIncome += taxSplit.ordinaryIncome / this.getVestingYears(grant);
+      annualCapitalIncome += taxSplit.capitalGain / this.getVestingYears(grant);
       
-      assumptions.push(`RSU grant valued at current stock price of $${currentStockPrice}`);
-      assumptions.push('RSUs taxed as ordinary income at vesting');
+      assumptions.push(grant.capTable && grant.companyStage !== 'public'
+        ? this.describeWaterfall(grant.capTable)
+        : `RSU grant valued at current stock price of $${currentStockPrice}`);
+      if (grant.dilution) assumptions.push(this.describeDilution(grant, grant.dilution));
+      if (this.hasPriceSimulation(grant)) {
+        const { expectedReturn, volatility, paths, seed } = grant.priceSimulation;
+        assumptions.push(`Future vests valued at the median of ${paths} simulated price paths (seed ${seed}, ` +
+          `expected return ${expectedReturn.toFixed(1)}%, volatility ${volatility.toFixed(1)}%)`);
+      }
+      assumptions.push(...taxSplit.assumptions);
     }
 
-    const riskAdjustedValue = this.applyRiskDiscount(totalCurrentValue, grants[0]?.companyStage || 'public');
-
     return {
       currentValue: totalCurrentValue,
       postTaxValue: totalPostTaxValue,
-      riskAdjustedValue,
+      riskAdjustedValue: riskAdjusted.value,
+      exitDistribution: riskAdjusted.hasScenarios
+        ? { p10: riskAdjusted.p10, p50: riskAdjusted.p50, p90: riskAdjusted.p90 }
+        : undefined,
+      annualOrdinaryIncome,
+      annualCapitalIncome,
       vestingSchedule: allVestingEvents.sort((a, b) => a.date.getTime() - b.date.getTime()),
       assumptions
     };
   }
 
   /**
-   * Value stock options (ISO, NQSO)
+   * Value stock options (ISO, NQSO) by each grant's pricing model, with ordinary income stacked on top of annual salary
    */
-  static async valueStockOptions(grants: EquityGrant[]): Promise<EquityValuation> {
+  static async valueStockOptions(
+    grants: EquityGrant[],
+    annualSalaryILS: number = 0,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): Promise<EquityValuation> {
     let totalCurrentValue = 0;
     let totalPostTaxValue = 0;
+    const riskAdjusted = { value: 0, p10: 0, p50: 0, p90: 0, hasScenarios: false };
+    let annualOrdinaryIncome = 0;
+    let annualCapitalIncome = 0;
     const allVestingEvents: VestingEvent[] = [];
     const assumptions: string[] = [];
 
     for (const grant of grants.filter(g => g.type === 'ISO' || g.type === 'NQSO')) {
-      const currentStockPrice = grant.currentStockPrice || 0;
+      const currentStockPrice = this.getSharePrice(grant);
       const strikePrice = grant.strikePrice || 0;
-      const intrinsicValue = Math.max(0, currentStockPrice - strikePrice);
-      const grantValue = grant.amount * intrinsicValue;
+      const optionValue = OptionPricer.valuePerShare(currentStockPrice, strikePrice, grant.optionPricing);
+      const grantValue = grant.amount * optionValue;
       
       // Convert to ILS if needed
-      const grantValueILS = intrinsicValue > 0 ? 
+      const grantValueILS = optionValue > 0 ? 
         await CurrencyConverter.convertUSDToILS(grantValue) : 0;
       
       totalCurrentValue += grantValueILS;
+      await this.addRiskAdjustedValue(riskAdjusted, grant, grantValueILS, assumptions);
       
       // Calculate vesting schedule
       const vestingEvents = this.calculateVestingSchedule(grant);
       allVestingEvents.push(...vestingEvents);
       
-      // Tax treatment depends on option type
-      if (grant.type === 'ISO') {
-        // ISO: Generally taxed as capital gains if held properly
-        const capitalGainsTax = TaxCalculator.calculateCapitalGains(grantValueILS);
-        totalPostTaxValue += Math.max(0, grantValueILS - capitalGainsTax);
-        assumptions.push('ISO options assumed to qualify for capital gains treatment');
-      } else {
-        // NQSO: Spread taxed as ordinary income, future gains as capital gains
-        const ordinaryIncomeTax = grantValueILS * 0.35; // Simplified average rate
-        totalPostTaxValue += Math.max(0, grantValueILS - ordinaryIncomeTax);
-        assumptions.push('NQSO options: spread taxed as ordinary income');
-      }
+      // Spread at grant of a listed company's options is taxed as income under the 102 capital track
+      const grantDateSpread = Math.max(0, this.getGrantDatePrice(grant) - strikePrice);
+      const grantDateValueILS = grantValueILS > 0 ?
+        Math.min(grantValueILS, grantValueILS * grantDateSpread / optionValue) : 0;
+      
+      const taxSplit = this.calculateTrackTaxSplit(grant, grantValueILS, grantDateValueILS, annualSalaryILS + annualOrdinaryIncome, taxPoints, rules);
       
-      assumptions.push(`Options valued at intrinsic value: $${currentStockPrice} - $${strikePrice} = $${intrinsicValue} per share`);
+      totalPostTaxValue += Math.max(0, grantValueILS - taxSplit.ordinaryIncomeTax - taxSplit.capitalGainsTax);
+      annualOrdinaryIncome += taxSplit.ordinaryIncome / this.getVestingYears(grant);
+      annualCapitalIncome += taxSplit.capitalGain / this.getVestingYears(grant);
+      
+      assumptions.push(...taxSplit.assumptions);
+      if (grant.capTable && grant.companyStage !== 'public') assumptions.push(this.describeWaterfall(grant.capTable));
+      assumptions.push(OptionPricer.describe(currentStockPrice, strikePrice, grant.optionPricing));
+      if (grant.dilution) assumptions.push(this.describeDilution(grant, grant.dilution));
     }
 
-    const riskAdjustedValue = this.applyRiskDiscount(totalCurrentValue, grants[0]?.companyStage || 'public');
-
     return {
       currentValue: totalCurrentValue,
       postTaxValue: totalPostTaxValue,
-      riskAdjustedValue,
+      riskAdjustedValue: riskAdjusted.value,
+      exitDistribution: riskAdjusted.hasScenarios
+        ? { p10: riskAdjusted.p10, p50: riskAdjusted.p50, p90: riskAdjusted.p90 }
+        : undefined,
+      annualOrdinaryIncome,
+      annualCapitalIncome,
       vestingSchedule: allVestingEvents.sort((a, b) => a.date.getTime() - b.date.getTime()),
       assumptions
     };
   }
 
   /**
-   * Value ESPP (Employee Stock Purchase Plan)
+   * Value ESPP (Employee Stock Purchase Plan), with the discount stacked on top of annual salary
    */
-  static async valueESPP(grants: EquityGrant[]): Promise<EquityValuation> {
+  static async valueESPP(
+    grants: EquityGrant[],
+    annualSalaryILS: number = 0,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): Promise<EquityValuation> {
     let totalCurrentValue = 0;
     let totalPostTaxValue = 0;
+    let annualOrdinaryIncome = 0;
     const assumptions: string[] = [];
 
     for (const grant of grants.filter(g => g.type === 'ESPP')) {
@@ -124,9 +175,12 @@ export class EquityValuator {
       
       totalCurrentValue += grantValueILS;
       
-      // ESPP discount typically taxed as ordinary income
-      const ordinaryIncomeTax = grantValueILS * 0.35; // Simplified average rate
+      // ESPP discount taxed as salary income at the marginal rate
+      const ordinaryIncomeTax = TaxCalculator.calculateStackedTax(
+        annualSalaryILS + annualOrdinaryIncome, grantValueILS, taxPoints, true, rules
+      ).total;
       totalPostTaxValue += Math.max(0, grantValueILS - ordinaryIncomeTax);
+      annualOrdinaryIncome += grantValueILS; // purchase discount is realized each plan year
       
       assumptions.push(`ESPP discount of $${discount} per share taxed as ordinary income`);
     }
@@ -135,18 +189,173 @@ export class EquityValuator {
       currentValue: totalCurrentValue,
       postTaxValue: totalPostTaxValue,
       riskAdjustedValue: totalCurrentValue, // ESPP usually low risk
+      annualOrdinaryIncome,
+      annualCapitalIncome: 0,
       vestingSchedule: [], // ESPP typically immediate
       assumptions
     };
   }
 
+  /**
+   * Split a grant's gain into ordinary income and capital gain according to its tax track
+   */
+  static calculateTrackTaxSplit(
+    grant: EquityGrant,
+    gainILS: number,
+    grantDateValueILS: number,
+    annualBaseIncome: number = 0,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): {
+    ordinaryIncome: number;
+    capitalGain: number;
+    ordinaryIncomeTax: number;
+    capitalGainsTax: number;
+    assumptions: string[];
+  } {
+    const track = grant.taxTrack || 'section102-capital';
+    const assumptions = [`Tax track: ${TAX_TRACK_LABELS[track]}`];
+    let ordinaryIncome = gainILS;
+    let subjectToSocialContributions = true;
+    
+    if (track === 'section102-capital') {
+      const holdingMonths = grant.holdingMonthsAtSale ?? rules.section102.capitalTrackTrusteeMonths;
+      if (holdingMonths >= rules.section102.capitalTrackTrusteeMonths) {
+        ordinaryIncome = Math.min(gainILS, grantDateValueILS);
+        subjectToSocialContributions = false;
+        assumptions.push(grantDateValueILS > 0
+          ? 'Grant-date value taxed as income, gain above it as capital gains'
+          : 'Whole gain taxed as capital gains');
+        if (grantDateValueILS > 0 && grant.grantDatePrice === undefined) {
+          assumptions.push(`No share price at grant entered - today's $${grant.currentStockPrice || 0} is used, so the gain to date is taxed as income rather than capital gains`);
+        }
+      } else {
+        assumptions.push(`Sold ${holdingMonths} months after grant, before the ${rules.section102.capitalTrackTrusteeMonths}-month trustee period - whole gain taxed as income`);
+      }
+    } else if (track === 'section102-ordinary') {
+      const holdingMonths = grant.holdingMonthsAtSale ?? rules.section102.ordinaryTrackTrusteeMonths;
+      subjectToSocialContributions = holdingMonths < rules.section102.ordinaryTrackTrusteeMonths;
+      assumptions.push(holdingMonths >= rules.section102.ordinaryTrackTrusteeMonths
+        ? 'Whole gain taxed as income at sale'
+        : `Sold before the ${rules.section102.ordinaryTrackTrusteeMonths}-month trustee period - whole gain taxed as salary income`);
+    } else if (track === 'section3i') {
+      assumptions.push('Whole gain taxed as income at exercise or sale');
+    } else {
+      assumptions.push('Value at vesting taxed as income, later appreciation as capital gains');
+    }
+    
+    const capitalGain = Math.max(0, gainILS - ordinaryIncome);
+    
+    // Ordinary income vests evenly over the vesting period, each year stacked on top of the base income
+    const vestingYears = this.getVestingYears(grant);
+    const annualStackedTax = TaxCalculator.calculateStackedTax(
+      annualBaseIncome, ordinaryIncome / vestingYears, taxPoints, subjectToSocialContributions, rules
+    );
+    if (ordinaryIncome > 0) {
+      const marginalRate = annualStackedTax.total / (ordinaryIncome / vestingYears);
+      assumptions.push(`Income component taxed at ${(marginalRate * 100).toFixed(1)}% on top of salary${subjectToSocialContributions ? ', including Bituach Leumi and health tax' : ''}`);
+    }
+    
+    return {
+      ordinaryIncome,
+      capitalGain,
+      ordinaryIncomeTax: annualStackedTax.total * vestingYears,
+      capitalGainsTax: TaxCalculator.calculateCapitalGains(capitalGain, rules),
+      assumptions
+    };
+  }
+
+  /**
+   * Price per share a grant is valued at - private companies with a cap table use the exit waterfall's common share value
+   */
+  static getSharePrice(grant: EquityGrant): number {
+    if (grant.capTable && grant.companyStage !== 'public') return ExitWaterfall.getCommonPerShare(grant.capTable);
+    return grant.currentStockPrice || 0;
+  }
+
+  /**
+   * Add a grant's risk-adjusted value - probability-weighted over its exit scenarios, else the waterfall value or stage discount.
+   * Grants of one company exit together, so their percentiles add up.
+   */
+  private static async addRiskAdjustedValue(
+    totals: { value: number; p10: number; p50: number; p90: number; hasScenarios: boolean },
+    grant: EquityGrant,
+    valueILS: number,
+    assumptions: string[]
+  ): Promise<void> {
+    if (grant.exitScenarios && grant.exitScenarios.length > 0 && grant.companyStage !== 'public') {
+      const analysis = ExitScenarioSimulator.analyze(grant);
+      const { rate } = await CurrencyConverter.getCurrentExchangeRate();
+
+      totals.value += analysis.expectedValue * rate;
+      totals.p10 += analysis.p10 * rate;
+      totals.p50 += analysis.p50 * rate;
+      totals.p90 += analysis.p90 * rate;
+      totals.hasScenarios = true;
+      assumptions.push(`Risk-adjusted over ${analysis.outcomes.length} exit scenarios discounted to today: expected $${Math.round(analysis.expectedValue).toLocaleString()} ` +
+        `(p10 $${Math.round(analysis.p10).toLocaleString()}, p50 $${Math.round(analysis.p50).toLocaleString()}, p90 $${Math.round(analysis.p90).toLocaleString()})`);
+      return;
+    }
+
+    const riskAdjustedValue = grant.capTable && grant.companyStage !== 'public'
+      ? valueILS
+      : this.applyRiskDiscount(valueILS, grant.companyStage || 'public');
+    totals.value += riskAdjustedValue;
+    totals.p10 += riskAdjustedValue;
+    totals.p50 += riskAdjustedValue;
+    totals.p90 += riskAdjustedValue;
+  }
+
+  /**
+   * Describe the waterfall behind a private grant's share value, for the valuation assumptions
+   */
+  private static describeWaterfall(capTable: CapTable): string {
+    const waterfall = ExitWaterfall.calculate(capTable);
+    const preferences = waterfall.payouts.reduce((sum, payout) => sum + payout.preference, 0);
+    return `Common share value of $${waterfall.commonPerShare.toFixed(2)} from a $${capTable.exitValue.toLocaleString()} exit ` +
+      `after $${Math.round(preferences).toLocaleString()} in liquidation preferences across ${capTable.preferredRounds.length} preferred rounds`;
+  }
+
+  /**
+   * Whether future vests are priced by simulation - public company RSUs only
+   */
+  static hasPriceSimulation(grant: EquityGrant): grant is EquityGrant & { priceSimulation: PriceSimulationInputs } {
+    return !!grant.priceSimulation && grant.type === 'RSU' && grant.companyStage === 'public';
+  }
+
+  /**
+   * Describe a grant's expected dilution, for the valuation assumptions
+   */
+  private static describeDilution(grant: EquityGrant, dilution: DilutionPlan): string {
+    const projection = DilutionProjector.project(grant.amount, this.getSharePrice(grant), dilution);
+    const today = projection[0];
+    const last = projection[projection.length - 1];
+    return `Expected dilution over ${projection.length - 1} funding rounds: ownership from ${(today.ownership * 100).toFixed(3)}% ` +
+      `to ${(last.ownership * 100).toFixed(3)}%, share price from $${today.sharePrice.toFixed(2)} to $${last.sharePrice.toFixed(2)}`;
+  }
+
+  /**
+   * Share price at grant used for the income component of the 102 capital track (listed companies only)
+   */
+  private static getGrantDatePrice(grant: EquityGrant): number {
+    if (grant.companyStage !== 'public') return 0;
+    return grant.grantDatePrice ?? grant.currentStockPrice ?? 0;
+  }
+
+  /**
+   * Number of years a grant's value is spread over when annualizing taxable income
+   */
+  private static getVestingYears(grant: EquityGrant): number {
+    return Math.max(1, grant.vestingSchedule?.totalYears || 1);
+  }
+
   /**
    * Calculate vesting schedule for an equity grant
    */
   static calculateVestingSchedule(grant: EquityGrant): VestingEvent[] {
     const events: VestingEvent[] = [];
     const { vestingSchedule, amount } = grant;
-    const currentStockPrice = grant.currentStockPrice || 0;
+    const currentStockPrice = this.getSharePrice(grant);
     
     if (!vestingSchedule) return events;
     
@@ -203,6 +412,26 @@ export class EquityValuator {
       });
     }
     
+    // Public company RSUs are stamped with the median simulated value at each vest instead of today's price
+    if (this.hasPriceSimulation(grant)) {
+      const sortedEvents = [...events].sort((a, b) => a.date.getTime() - b.date.getTime());
+      const simulation = PriceSimulator.simulateVesting(sortedEvents, currentStockPrice, grant.priceSimulation);
+      return sortedEvents.map((event, index) => ({ ...event, estimatedValue: simulation.events[index].value.p50 }));
+    }
+    
+    // Expected rounds set the share price at each vest and shrink the ownership vested so far
+    if (grant.dilution) {
+      const projection = DilutionProjector.project(amount, currentStockPrice, grant.dilution);
+      return events.map(event => {
+        const point = DilutionProjector.getPointAt(projection, event.date);
+        return {
+          ...event,
+          estimatedValue: event.sharesVested * point.sharePrice,
+          ownership: point.sharesOutstanding > 0 ? event.cumulativeShares / point.sharesOutstanding : 0
+        };
+      });
+    }
+    
     return events;
   }
 
@@ -224,8 +453,14 @@ export class EquityValuator {
   /**
    * Calculate post-tax equity value with Israeli tax considerations
    */
-  static async calculatePostTaxEquityValue(grants: EquityGrant[]): Promise<number> {
+  static async calculatePostTaxEquityValue(
+    grants: EquityGrant[],
+    annualSalaryILS: number = 0,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): Promise<number> {
     let totalPostTaxValue = 0;
+    let stackedIncome = annualSalaryILS;
     
     // Group grants by type for different tax treatments
     const rsus = grants.filter(g => g.type === 'RSU');
@@ -233,17 +468,19 @@ export class EquityValuator {
     const espp = grants.filter(g => g.type === 'ESPP');
     
     if (rsus.length > 0) {
-      const rsuValuation = await this.valueRSUs(rsus);
+      const rsuValuation = await this.valueRSUs(rsus, stackedIncome, taxPoints, rules);
       totalPostTaxValue += rsuValuation.postTaxValue;
+      stackedIncome += rsuValuation.annualOrdinaryIncome;
     }
     
     if (options.length > 0) {
-      const optionValuation = await this.valueStockOptions(options);
+      const optionValuation = await this.valueStockOptions(options, stackedIncome, taxPoints, rules);
       totalPostTaxValue += optionValuation.postTaxValue;
+      stackedIncome += optionValuation.annualOrdinaryIncome;
     }
     
     if (espp.length > 0) {
-      const esppValuation = await this.valueESPP(espp);
+      const esppValuation = await this.valueESPP(espp, stackedIncome, taxPoints, rules);
       totalPostTaxValue += esppValuation.postTaxValue;
     }
     
@@ -272,17 +509,36 @@ export class EquityValuator {
   /**
    * Generate equity summary for display
    */
-  static async generateEquitySummary(grants: EquityGrant[]): Promise<{
+  static async generateEquitySummary(
+    grants: EquityGrant[],
+    annualSalaryILS: number = 0,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): Promise<{
     totalCurrentValue: number;
     totalPostTaxValue: number;
     riskAdjustedValue: number;
+    exitDistribution?: { p10: number; p50: number; p90: number };
     nextVestingDate: Date | null;
     nextVestingValue: number;
+    annualOrdinaryIncome: number;
+    annualCapitalIncome: number;
     assumptions: string[];
   }> {
-    const rsuValuation = await this.valueRSUs(grants.filter(g => g.type === 'RSU'));
-    const optionValuation = await this.valueStockOptions(grants.filter(g => g.type === 'ISO' || g.type === 'NQSO'));
-    const esppValuation = await this.valueESPP(grants.filter(g => g.type === 'ESPP'));
+    // Each equity type is stacked on top of salary plus the equity income before it
+    const rsuValuation = await this.valueRSUs(grants.filter(g => g.type === 'RSU'), annualSalaryILS, taxPoints, rules);
+    const optionValuation = await this.valueStockOptions(
+      grants.filter(g => g.type === 'ISO' || g.type === 'NQSO'),
+      annualSalaryILS + rsuValuation.annualOrdinaryIncome,
+      taxPoints,
+      rules
+    );
+    const esppValuation = await this.valueESPP(
+      grants.filter(g => g.type === 'ESPP'),
+      annualSalaryILS + rsuValuation.annualOrdinaryIncome + optionValuation.annualOrdinaryIncome,
+      taxPoints,
+      rules
+    );
     
     const allVestingEvents = [
       ...rsuValuation.vestingSchedule,
@@ -292,18 +548,31 @@ export class EquityValuator {
     const futureEvents = allVestingEvents.filter(event => event.date > new Date());
     const nextVesting = futureEvents[0] || null;
     
+    // Valuations without exit scenarios enter every percentile at their risk-adjusted value
+    const valuations = [rsuValuation, optionValuation, esppValuation];
+    const exitDistribution = valuations.some(v => v.exitDistribution)
+      ? {
+          p10: valuations.reduce((sum, v) => sum + (v.exitDistribution?.p10 ?? v.riskAdjustedValue), 0),
+          p50: valuations.reduce((sum, v) => sum + (v.exitDistribution?.p50 ?? v.riskAdjustedValue), 0),
+          p90: valuations.reduce((sum, v) => sum + (v.exitDistribution?.p90 ?? v.riskAdjustedValue), 0)
+        }
+      : undefined;
+    
     return {
       totalCurrentValue: rsuValuation.currentValue + optionValuation.currentValue + esppValuation.currentValue,
       totalPostTaxValue: rsuValuation.postTaxValue + optionValuation.postTaxValue + esppValuation.postTaxValue,
       riskAdjustedValue: rsuValuation.riskAdjustedValue + optionValuation.riskAdjustedValue + esppValuation.riskAdjustedValue,
+      exitDistribution,
       nextVestingDate: nextVesting?.date || null,
       nextVestingValue: nextVesting?.estimatedValue || 0,
+      annualOrdinaryIncome: rsuValuation.annualOrdinaryIncome + optionValuation.annualOrdinaryIncome + esppValuation.annualOrdinaryIncome,
+      annualCapitalIncome: rsuValuation.annualCapitalIncome + optionValuation.annualCapitalIncome + esppValuation.annualCapitalIncome,
       assumptions: [
         ...rsuValuation.assumptions,
         ...optionValuation.assumptions,
         ...esppValuation.assumptions,
         'All values converted to ILS using current exchange rates',
-        'Tax calculations based on 2024 Israeli tax law'
+        `Tax calculations based on ${rules.year} Israeli tax law`
       ]
     };
   }
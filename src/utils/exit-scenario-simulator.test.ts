@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { EquityGrant, ExitScenario } from '@/types';
+import { ExitScenarioSimulator } from './exit-scenario-simulator';
+
+const scenario = (overrides: Partial<ExitScenario> = {}): ExitScenario => ({
+  id: 'ipo',
+  name: 'IPO',
+  probability: 100,
+  yearsToExit: 0,
+  exitValue: 200000000,
+  ...overrides
+});
+
+// $10 a share at a $100M valuation, so each $1M of exit value is worth $0.10 a share
+const grant = (overrides: Partial<EquityGrant> = {}): EquityGrant => ({
+  id: 'g',
+  type: 'RSU',
+  amount: 10000,
+  grantDate: new Date(2025, 0, 1),
+  vestingStart: new Date(2025, 0, 1),
+  vestingSchedule: { type: 'standard', totalYears: 4, cliffMonths: 12, frequency: 'monthly' },
+  currentStockPrice: 10,
+  companyValuation: 100,
+  ...overrides
+});
+
+describe('ExitScenarioSimulator', () => {
+  it('orders p10, p50 and p90 across the scenarios', () => {
+    const analysis = ExitScenarioSimulator.analyze(grant({
+      exitScenarios: [
+        scenario({ id: 'ipo', probability: 20, exitValue: 1000000000 }),
+        scenario({ id: 'fail', name: 'Failure', probability: 30, exitValue: 0 }),
+        scenario({ id: 'acq', name: 'Acquisition', probability: 50, exitValue: 300000000 })
+      ]
+    }));
+
+    expect(analysis.p10).toBe(0);
+    expect(analysis.p50).toBeCloseTo(300000);
+    expect(analysis.p90).toBeCloseTo(1000000);
+    expect(analysis.p10).toBeLessThanOrEqual(analysis.p50);
+    expect(analysis.p50).toBeLessThanOrEqual(analysis.p90);
+  });
+
+  it('normalizes probabilities that do not add up to 100%', () => {
+    const analysis = ExitScenarioSimulator.analyze(grant({
+      exitScenarios: [
+        scenario({ id: 'low', probability: 1, exitValue: 100000000 }),
+        scenario({ id: 'high', probability: 3, exitValue: 500000000 })
+      ]
+    }));
+
+    expect(analysis.outcomes.map(outcome => outcome.probability)).toEqual([0.25, 0.75]);
+    expect(analysis.expectedValue).toBeCloseTo(0.25 * 100000 + 0.75 * 500000);
+  });
+
+  it('discounts each exit back to today over its years to exit', () => {
+    const analysis = ExitScenarioSimulator.analyze(grant({
+      exitScenarios: [
+        scenario({ id: 'now', probability: 50, yearsToExit: 0 }),
+        scenario({ id: 'later', probability: 50, yearsToExit: 2 })
+      ]
+    }), 0.1);
+
+    const [now, later] = analysis.outcomes;
+    expect(now.presentValue).toBeCloseTo(now.value);
+    expect(later.value).toBeCloseTo(now.value);
+    expect(later.presentValue).toBeCloseTo(later.value / 1.21);
+  });
+
+  it('values options at the spread over the strike', () => {
+    const analysis = ExitScenarioSimulator.analyze(grant({
+      type: 'ISO',
+      strikePrice: 25,
+      exitScenarios: [
+        scenario({ id: 'under', probability: 50, exitValue: 200000000 }),
+        scenario({ id: 'over', probability: 50, exitValue: 400000000 })
+      ]
+    }));
+
+    expect(analysis.outcomes[0].value).toBe(0);
+    expect(analysis.outcomes[1].value).toBeCloseTo(10000 * 15);
+  });
+});
@@ -0,0 +1,77 @@
+import { EquityGrant, ExitScenario, ExitScenarioAnalysis, ExitScenarioOutcome } from '@/types';
+import { EXIT_SCENARIO_DISCOUNT_RATE } from '@/constants/israeli-tax';
+import { ExitWaterfall } from './exit-waterfall';
+import { DilutionProjector } from './dilution-projector';
+
+export class ExitScenarioSimulator {
+  /**
+   * Common share price if the company exits at a scenario's value
+   */
+  static getSharePriceAtExit(grant: EquityGrant, scenario: ExitScenario): number {
+    const exitDate = new Date();
+    exitDate.setMonth(exitDate.getMonth() + Math.round(scenario.yearsToExit * 12));
+    const dilutedShares = grant.dilution &&
+      DilutionProjector.getPointAt(DilutionProjector.project(grant.amount, 0, grant.dilution), exitDate).sharesOutstanding;
+
+    if (grant.capTable) {
+      // Rounds after today dilute the cap table's holders - their own preferences are not modeled
+      const commonPerShare = ExitWaterfall.calculate(grant.capTable, scenario.exitValue).commonPerShare;
+      const capTableShares = grant.capTable.commonShares +
+        grant.capTable.preferredRounds.reduce((sum, round) => sum + round.shares, 0);
+      return dilutedShares ? commonPerShare * capTableShares / dilutedShares : commonPerShare;
+    }
+
+    if (dilutedShares) return scenario.exitValue / dilutedShares;
+
+    // Without a share count, scale today's price by the exit value over today's valuation
+    const currentValuation = (grant.companyValuation || 0) * 1000000;
+    return currentValuation > 0 ? (grant.currentStockPrice || 0) * scenario.exitValue / currentValuation : 0;
+  }
+
+  /**
+   * Value a grant across its exit scenarios - options are exercised at exit for the spread over the strike,
+   * and each exit is discounted back to today over its years to exit
+   */
+  static analyze(grant: EquityGrant, discountRate: number = EXIT_SCENARIO_DISCOUNT_RATE): ExitScenarioAnalysis {
+    const scenarios = grant.exitScenarios || [];
+    const totalProbability = scenarios.reduce((sum, scenario) => sum + Math.max(0, scenario.probability), 0);
+
+    const outcomes: ExitScenarioOutcome[] = scenarios.map(scenario => {
+      const sharePrice = this.getSharePriceAtExit(grant, scenario);
+      const valuePerShare = grant.type === 'RSU' ? sharePrice : Math.max(0, sharePrice - (grant.strikePrice || 0));
+      const value = grant.amount * valuePerShare;
+
+      return {
+        scenarioId: scenario.id,
+        name: scenario.name,
+        probability: totalProbability > 0 ? Math.max(0, scenario.probability) / totalProbability : 0,
+        yearsToExit: scenario.yearsToExit,
+        sharePrice,
+        value,
+        presentValue: value / Math.pow(1 + discountRate, Math.max(0, scenario.yearsToExit))
+      };
+    });
+
+    return {
+      expectedValue: outcomes.reduce((sum, outcome) => sum + outcome.probability * outcome.presentValue, 0),
+      p10: this.getPercentile(outcomes, 0.1),
+      p50: this.getPercentile(outcomes, 0.5),
+      p90: this.getPercentile(outcomes, 0.9),
+      outcomes
+    };
+  }
+
+  /**
+   * Smallest present value whose cumulative probability reaches the percentile
+   */
+  static getPercentile(outcomes: ExitScenarioOutcome[], percentile: number): number {
+    const sorted = [...outcomes].sort((a, b) => a.presentValue - b.presentValue);
+    let cumulative = 0;
+
+    for (const outcome of sorted) {
+      cumulative += outcome.probability;
+      if (cumulative >= percentile - 1e-9) return outcome.presentValue;
+    }
+    return sorted.length > 0 ? sorted[sorted.length - 1].presentValue : 0;
+  }
+}
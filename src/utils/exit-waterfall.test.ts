@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { CapTable, PreferredRound } from '@/types';
+import { ExitWaterfall } from './exit-waterfall';
+
+const round = (overrides: Partial<PreferredRound> = {}): PreferredRound => ({
+  id: 'a',
+  name: 'Series A',
+  shares: 2000000,
+  investment: 10000000,
+  liquidationMultiple: 1,
+  participating: false,
+  seniority: 1,
+  ...overrides
+});
+
+const capTable = (preferredRounds: PreferredRound[], commonShares: number = 8000000): CapTable => ({
+  commonShares,
+  preferredRounds,
+  exitValue: 0
+});
+
+const payout = (table: CapTable, exitValue: number, roundId: string) =>
+  ExitWaterfall.calculate(table, exitValue).payouts.find(p => p.roundId === roundId);
+
+describe('ExitWaterfall', () => {
+  it('pays senior preferences in full before junior ones', () => {
+    const table = capTable([
+      round({ id: 'a', seniority: 1 }),
+      round({ id: 'b', name: 'Series B', seniority: 2 })
+    ]);
+    const result = ExitWaterfall.calculate(table, 15000000);
+
+    expect(payout(table, 15000000, 'b')?.total).toBeCloseTo(10000000);
+    expect(payout(table, 15000000, 'a')?.total).toBeCloseTo(5000000);
+    expect(result.commonProceeds).toBe(0);
+  });
+
+  it('shares a shortfall pro rata between rounds of equal seniority', () => {
+    const table = capTable([
+      round({ id: 'a', investment: 10000000 }),
+      round({ id: 'b', investment: 30000000 })
+    ]);
+
+    expect(payout(table, 20000000, 'a')?.preference).toBeCloseTo(5000000);
+    expect(payout(table, 20000000, 'b')?.preference).toBeCloseTo(15000000);
+  });
+
+  it('lets non-participating preferred take its preference at a low exit and convert at a high one', () => {
+    const table = capTable([round()]);
+
+    const low = ExitWaterfall.calculate(table, 20000000);
+    expect(low.payouts[0].converted).toBe(false);
+    expect(low.payouts[0].total).toBeCloseTo(10000000);
+    expect(low.commonPerShare).toBeCloseTo(1.25);
+
+    const high = ExitWaterfall.calculate(table, 100000000);
+    expect(high.payouts[0].converted).toBe(true);
+    expect(high.payouts[0].total).toBeCloseTo(20000000);
+    expect(high.commonPerShare).toBeCloseTo(10);
+  });
+
+  it('pays participating preferred its preference and a pro rata share of the rest', () => {
+    const table = capTable([round({ participating: true })]);
+    const result = ExitWaterfall.calculate(table, 100000000);
+
+    expect(result.payouts[0].preference).toBeCloseTo(10000000);
+    expect(result.payouts[0].participation).toBeCloseTo(18000000);
+    expect(result.commonProceeds).toBeCloseTo(72000000);
+  });
+
+  it('stops capped participation at the cap and converts once common is worth more', () => {
+    const table = capTable([round({ participating: true, participationCap: 2 })]);
+
+    const capped = ExitWaterfall.calculate(table, 100000000);
+    expect(capped.payouts[0].converted).toBe(false);
+    expect(capped.payouts[0].total).toBeCloseTo(20000000);
+    expect(capped.commonProceeds).toBeCloseTo(80000000);
+
+    const converted = ExitWaterfall.calculate(table, 200000000);
+    expect(converted.payouts[0].converted).toBe(true);
+    expect(converted.payouts[0].total).toBeCloseTo(40000000);
+  });
+
+  it('pays out the whole exit', () => {
+    const table = capTable([
+      round({ id: 'a', participating: true, participationCap: 3 }),
+      round({ id: 'b', liquidationMultiple: 2, seniority: 2 })
+    ]);
+
+    for (const exitValue of [5000000, 40000000, 90000000, 400000000]) {
+      const result = ExitWaterfall.calculate(table, exitValue);
+      const total = result.commonProceeds + result.payouts.reduce((sum, p) => sum + p.total, 0);
+      expect(total).toBeCloseTo(exitValue, 0);
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { CapTable, PreferredRound, WaterfallPayout, WaterfallResult } from '@/types';
+
+export class ExitWaterfall {
+  /**
+   * Distribute an exit across the cap table - each non-participating or capped round takes the better of its preference and converting to common
+   */
+  static calculate(capTable: CapTable, exitValue: number = capTable.exitValue): WaterfallResult {
+    const converted = new Set<string>();
+
+    // Rounds with the lowest preference per share convert first as the exit grows
+    const byPreferencePerShare = [...capTable.preferredRounds]
+      .filter(round => round.shares > 0)
+      .sort((a, b) => this.getPreference(a) / a.shares - this.getPreference(b) / b.shares);
+
+    let result = this.distribute(capTable, exitValue, converted);
+    for (;;) {
+      const converting = byPreferencePerShare.find(round => {
+        if (converted.has(round.id)) return false;
+        const asConverted = this.distribute(capTable, exitValue, new Set([...converted, round.id]));
+        return this.getPayout(asConverted, round.id) > this.getPayout(result, round.id);
+      });
+      if (!converting) break;
+
+      converted.add(converting.id);
+      result = this.distribute(capTable, exitValue, converted);
+    }
+
+    return result;
+  }
+
+  /**
+   * Proceeds per common share at the cap table's exit value
+   */
+  static getCommonPerShare(capTable: CapTable): number {
+    return this.calculate(capTable).commonPerShare;
+  }
+
+  /**
+   * Liquidation preference of a round - its investment times the preference multiple
+   */
+  static getPreference(round: PreferredRound): number {
+    return round.investment * round.liquidationMultiple;
+  }
+
+  /**
+   * Pay preferences by seniority, then share what is left among common, converted and participating shares
+   */
+  private static distribute(capTable: CapTable, exitValue: number, converted: Set<string>): WaterfallResult {
+    let remaining = Math.max(0, exitValue);
+    const preferences: { [roundId: string]: number } = {};
+    const holding = capTable.preferredRounds.filter(round => !converted.has(round.id));
+
+    // Senior ranks are paid in full before junior ones, rounds of equal rank share a shortfall pro rata
+    const ranks = Array.from(new Set(holding.map(round => round.seniority))).sort((a, b) => b - a);
+    for (const rank of ranks) {
+      const rankRounds = holding.filter(round => round.seniority === rank);
+      const totalClaim = rankRounds.reduce((sum, round) => sum + this.getPreference(round), 0);
+      const paid = Math.min(remaining, totalClaim);
+
+      for (const round of rankRounds) {
+        preferences[round.id] = totalClaim > 0 ? paid * this.getPreference(round) / totalClaim : 0;
+      }
+      remaining -= paid;
+    }
+
+    // Participants and how much more each may receive - capped participation stops at its cap
+    const participants = [
+      { id: 'common', shares: capTable.commonShares, room: Infinity },
+      ...capTable.preferredRounds
+        .filter(round => converted.has(round.id) || round.participating)
+        .map(round => ({
+          id: round.id,
+          shares: round.shares,
+          room: converted.has(round.id) || round.participationCap === undefined
+            ? Infinity
+            : Math.max(0, round.participationCap * round.investment - preferences[round.id])
+        }))
+    ];
+
+    const participation: { [id: string]: number } = {};
+    let active = participants.filter(participant => participant.shares > 0);
+    let perShare = 0;
+    while (active.length > 0) {
+      const totalShares = active.reduce((sum, participant) => sum + participant.shares, 0);
+      perShare = remaining / totalShares;
+
+      const capped = active.filter(participant => participant.shares * perShare > participant.room);
+      if (capped.length === 0) {
+        active.forEach(participant => { participation[participant.id] = participant.shares * perShare; });
+        break;
+      }
+
+      capped.forEach(participant => {
+        participation[participant.id] = participant.room;
+        remaining -= participant.room;
+      });
+      active = active.filter(participant => !capped.includes(participant));
+    }
+
+    const payouts: WaterfallPayout[] = capTable.preferredRounds.map(round => {
+      const preference = preferences[round.id] || 0;
+      const roundParticipation = participation[round.id] || 0;
+      return {
+        roundId: round.id,
+        name: round.name,
+        converted: converted.has(round.id),
+        preference,
+        participation: roundParticipation,
+        total: preference + roundParticipation
+      };
+    });
+
+    return {
+      exitValue,
+      payouts,
+      commonProceeds: participation.common || 0,
+      commonPerShare: capTable.commonShares > 0 ? (participation.common || 0) / capTable.commonShares : 0
+    };
+  }
+
+  /**
+   * Total paid to a round in a waterfall result
+   */
+  private static getPayout(result: WaterfallResult, roundId: string): number {
+    return result.payouts.find(payout => payout.roundId === roundId)?.total || 0;
+  }
+}
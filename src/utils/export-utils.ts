@@ -1,6 +1,8 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { CompensationPackage, CompensationCalculation } from '@/types';
+import { CompensationCalculator } from './compensation-calculator';
+import { PriceSimulator } from './price-simulator';
 
 // PDF Export functionality
 export const exportToPDF = async (elementId: string, fileName: string = 'compensation-report.pdf'): Promise<void> => {
@@ -85,6 +87,11 @@ export const generateDetailedPDFReport = async (
   // Package Info
   addText(`Package: ${package_.name}`, 14, 'bold');
   addText(`Generated: ${new Date().toLocaleDateString('en-IL')}`, 10);
+  addText(`Tax Year: ${package_.taxYear}`, 10);
+  addText(`Employment: ${package_.employmentType === 'selfEmployed' ? `Contractor (osek ${package_.selfEmployed.dealerType})` : 'Employee'}`, 10);
+  if (calculation?.household) {
+    addText(`Household Take-Home: ₪${Math.round(calculation.household.totalTakeHome).toLocaleString()} for ${calculation.household.earners.length} earners`, 10);
+  }
   yPosition += 10;
 
   // Salary Section
@@ -92,17 +99,26 @@ export const generateDetailedPDFReport = async (
   addText('💰 SALARY BREAKDOWN', 16, 'bold');
   yPosition += 5;
   
-  const annualSalary = package_.salary.frequency === 'monthly' 
-    ? package_.salary.baseSalary * 12 
-    : package_.salary.baseSalary;
+  const annualSalary = CompensationCalculator.getMonthlyBaseSalary(package_.salary) * 12;
   
   addText(`Base Salary: ${package_.salary.currency} ${package_.salary.baseSalary.toLocaleString()} (${package_.salary.frequency})`);
   addText(`Annual Equivalent: ₪${annualSalary.toLocaleString()}`);
+  if (package_.salary.globalOvertime) {
+    addText(`Global Overtime: ${package_.salary.currency} ${package_.salary.globalOvertime.toLocaleString()}/month (not pensionable)`);
+  }
   
   if (package_.salary.bonus) {
     addText(`Bonus: ${package_.salary.currency} ${package_.salary.bonus.amount.toLocaleString()} (${package_.salary.bonus.frequency})`);
     addText(`Guaranteed: ${package_.salary.bonus.guaranteed ? 'Yes' : 'No'}`);
   }
+  if (package_.employmentType === 'selfEmployed') {
+    addText(`Business Expenses: ₪${package_.selfEmployed.monthlyExpenses.toLocaleString()}/month`);
+    addText(`Self-funded Deposits: Pension ${package_.selfEmployed.pensionRate}%, Study Fund ${package_.selfEmployed.studyFundRate}%`);
+  }
+  addText(`Year of Service: ${package_.salary.seniorityYears ?? 1}`);
+  if (package_.salary.holidayGifts) {
+    addText(`Holiday Gifts: Rosh Hashana ₪${package_.salary.holidayGifts.roshHashana}, Passover ₪${package_.salary.holidayGifts.passover}`);
+  }
   yPosition += 10;
 
   // Benefits Section
@@ -111,6 +127,7 @@ export const generateDetailedPDFReport = async (
   yPosition += 5;
   
   addText(`Pension Fund: Employee ${package_.benefits.pensionFund.employeeContribution}%, Employer ${package_.benefits.pensionFund.employerContribution}%`);
+  addText(`Severance: Employer ${package_.benefits.severance.employerContribution}% (${package_.benefits.severance.section14 ? 'Section 14' : 'no Section 14'}, ${package_.benefits.severance.expectedTenureYears} year tenure)`);
   addText(`Study Fund: Employee ${package_.benefits.studyFund.employeeContribution}%, Employer ${package_.benefits.studyFund.employerContribution}%`);
   addText(`Health Insurance: ${package_.benefits.healthInsurance.coverage} (₪${package_.benefits.healthInsurance.employerContribution}/month)`);
   addText(`Vacation Days: ${package_.benefits.vacationDays} days`);
@@ -132,6 +149,10 @@ export const generateDetailedPDFReport = async (
   if (package_.perks.transportation > 0) {
     addText(`Transportation: ₪${package_.perks.transportation}/month`);
   }
+  if (package_.perks.companyCar) {
+    const car = package_.perks.companyCar;
+    addText(`Company Car: ${car.valuation === 'priceGroup' ? `price group ${car.priceGroup}` : `list price ₪${car.listPrice.toLocaleString()}`}, ${car.fuelType}${car.fuelCard ? `, fuel card ₪${car.monthlyFuelValue}/month` : ''}`);
+  }
   if (package_.perks.internetStipend > 0) {
     addText(`Internet Stipend: ₪${package_.perks.internetStipend}/month`);
   }
@@ -169,9 +190,25 @@ export const generateDetailedPDFReport = async (
     addText('🏛️ TAX BREAKDOWN', 14, 'bold');
     addText(`Income Tax: ₪${calculation.taxImplications.incomeTax.toLocaleString()}`);
     addText(`Bituach Leumi: ₪${calculation.taxImplications.bituachLeumi.toLocaleString()}`);
+    addText(`Health Tax: ₪${calculation.taxImplications.healthTax.toLocaleString()}`);
+    addText(`Surtax: ₪${calculation.taxImplications.surtax.toLocaleString()}`);
+    addText(`Employer Bituach Leumi (not deducted): ₪${calculation.taxImplications.employerBituachLeumi.toLocaleString()}`);
     addText(`Pension Contributions: ₪${calculation.taxImplications.pensionContributions.toLocaleString()}`);
+    addText(`Pension Tax Credit (paid by the state): ₪${calculation.taxImplications.pensionTaxCredit.toLocaleString()}`);
+    addText(`Residence Credit (Eilat / periphery): ₪${calculation.taxImplications.residenceCredit.toLocaleString()}`);
+    addText(`Imputed Income (taxable benefit): ₪${calculation.taxImplications.imputedIncome.toLocaleString()}`);
     addText(`Total Deductions: ₪${calculation.taxImplications.totalDeductions.toLocaleString()}`);
     addText(`Effective Tax Rate: ${(calculation.taxImplications.effectiveTaxRate * 100).toFixed(1)}%`);
+    yPosition += 10;
+
+    // Employer Cost
+    checkNewPage();
+    addText('🏢 EMPLOYER COST', 14, 'bold');
+    calculation.employerCost.lines.forEach(line => {
+      addText(`${line.label}: ₪${Math.round(line.annualCost).toLocaleString()} (${line.assumption})`);
+    });
+    addText(`Total Employer Cost: ₪${Math.round(calculation.employerCost.totalCost).toLocaleString()}`);
+    addText(`Cost Above Salary: ${calculation.employerCost.costPercentage.toFixed(1)}%`);
   }
 
   // Footer
@@ -214,6 +251,9 @@ export const exportToCSV = (package_: CompensationPackage, calculation?: Compens
     [''],
     ['Package Name', package_.name],
     ['Generated', new Date().toLocaleDateString('en-IL')],
+    ['Tax Year', String(package_.taxYear)],
+    ['Employment', package_.employmentType === 'selfEmployed' ? `Contractor (osek ${package_.selfEmployed.dealerType})` : 'Employee'],
+    ...(calculation?.household ? [['Household Take-Home', `₪${Math.round(calculation.household.totalTakeHome).toLocaleString()}`]] : []),
     [''],
     ['SALARY'],
     ['Base Salary', `${package_.salary.currency} ${package_.salary.baseSalary.toLocaleString()} (${package_.salary.frequency})`],
@@ -223,12 +263,26 @@ export const exportToCSV = (package_: CompensationPackage, calculation?: Compens
     rows.push(['Bonus', `${package_.salary.currency} ${package_.salary.bonus.amount.toLocaleString()} (${package_.salary.bonus.frequency})`]);
     rows.push(['Bonus Guaranteed', package_.salary.bonus.guaranteed ? 'Yes' : 'No']);
   }
+  if (package_.salary.globalOvertime) {
+    rows.push(['Global Overtime', `${package_.salary.currency} ${package_.salary.globalOvertime.toLocaleString()}/month`]);
+  }
+  if (package_.employmentType === 'selfEmployed') {
+    rows.push(['Business Expenses', `₪${package_.selfEmployed.monthlyExpenses.toLocaleString()}/month`]);
+    rows.push(['Self-funded Deposits', `Pension ${package_.selfEmployed.pensionRate}%, Study Fund ${package_.selfEmployed.studyFundRate}%`]);
+  }
+  rows.push(['Year of Service', (package_.salary.seniorityYears ?? 1).toString()]);
+  if (package_.salary.holidayGifts) {
+    rows.push(['Holiday Gifts', `Rosh Hashana ₪${package_.salary.holidayGifts.roshHashana}, Passover ₪${package_.salary.holidayGifts.passover}`]);
+  }
 
   rows.push(
     [''],
     ['BENEFITS'],
     ['Pension Employee %', package_.benefits.pensionFund.employeeContribution.toString()],
     ['Pension Employer %', package_.benefits.pensionFund.employerContribution.toString()],
+    ['Severance Employer %', package_.benefits.severance.employerContribution.toString()],
+    ['Section 14', package_.benefits.severance.section14 ? 'Yes' : 'No'],
+    ['Expected Tenure (years)', package_.benefits.severance.expectedTenureYears.toString()],
     ['Study Fund Employee %', package_.benefits.studyFund.employeeContribution.toString()],
     ['Study Fund Employer %', package_.benefits.studyFund.employerContribution.toString()],
     ['Health Insurance Coverage', package_.benefits.healthInsurance.coverage],
@@ -243,6 +297,9 @@ export const exportToCSV = (package_: CompensationPackage, calculation?: Compens
     ['Meals Type', package_.perks.meals.type],
     ['Meals Value', `₪${package_.perks.meals.value}/month`],
     ['Transportation', `₪${package_.perks.transportation}/month`],
+    ['Company Car', package_.perks.companyCar
+      ? `${package_.perks.companyCar.valuation === 'priceGroup' ? `Price group ${package_.perks.companyCar.priceGroup}` : `₪${package_.perks.companyCar.listPrice} list price`} (${package_.perks.companyCar.fuelType})`
+      : 'No'],
     ['Internet Stipend', `₪${package_.perks.internetStipend}/month`],
     ['Phone Stipend', `₪${package_.perks.phoneStipend}/month`],
     ['Gym Membership', `₪${package_.perks.gymMembership}/month`],
@@ -271,9 +328,21 @@ export const exportToCSV = (package_: CompensationPackage, calculation?: Compens
       ['TAX BREAKDOWN'],
       ['Income Tax', `₪${calculation.taxImplications.incomeTax.toLocaleString()}`],
       ['Bituach Leumi', `₪${calculation.taxImplications.bituachLeumi.toLocaleString()}`],
+      ['Health Tax', `₪${calculation.taxImplications.healthTax.toLocaleString()}`],
+      ['Surtax', `₪${calculation.taxImplications.surtax.toLocaleString()}`],
+      ['Employer Bituach Leumi', `₪${calculation.taxImplications.employerBituachLeumi.toLocaleString()}`],
       ['Pension Contributions', `₪${calculation.taxImplications.pensionContributions.toLocaleString()}`],
+      ['Pension Tax Credit', `₪${calculation.taxImplications.pensionTaxCredit.toLocaleString()}`],
+      ['Residence Credit', `₪${calculation.taxImplications.residenceCredit.toLocaleString()}`],
+      ['Imputed Income', `₪${calculation.taxImplications.imputedIncome.toLocaleString()}`],
       ['Total Deductions', `₪${calculation.taxImplications.totalDeductions.toLocaleString()}`],
-      ['Effective Tax Rate', `${(calculation.taxImplications.effectiveTaxRate * 100).toFixed(1)}%`]
+      ['Effective Tax Rate', `${(calculation.taxImplications.effectiveTaxRate * 100).toFixed(1)}%`],
+      ['Tax Credit Points', calculation.taxImplications.creditPoints.toFixed(2)],
+      [''],
+      ['EMPLOYER COST'],
+      ...calculation.employerCost.lines.map(line => [line.label, `₪${Math.round(line.annualCost).toLocaleString()}`]),
+      ['Total Employer Cost', `₪${Math.round(calculation.employerCost.totalCost).toLocaleString()}`],
+      ['Cost Above Salary', `${calculation.employerCost.costPercentage.toFixed(1)}%`]
     );
   }
 
@@ -327,6 +396,28 @@ export const importFromJSON = (file: File): Promise<{ package: CompensationPacka
   });
 };
 
+// Import a share price history CSV for calibrating the price simulation
+export const importPriceHistoryCSV = (file: File): Promise<{ prices: number[]; periodsPerYear: number }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    
+    reader.onload = (e) => {
+      const history = PriceSimulator.parsePriceHistoryCsv(e.target?.result as string);
+      if (history.prices.length < 3) {
+        reject(new Error('Price history needs at least 3 closing prices'));
+        return;
+      }
+      resolve(history);
+    };
+    
+    reader.onerror = () => {
+      reject(new Error('Failed to read file'));
+    };
+    
+    reader.readAsText(file);
+  });
+};
+
 // Utility to format currency for exports
 export const formatCurrencyForExport = (amount: number, currency: 'ILS' | 'USD' = 'ILS'): string => {
   const symbol = currency === 'ILS' ? '₪' : '$';
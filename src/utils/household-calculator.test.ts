@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { TAX_RULES_2024 } from '@/constants/tax-rules';
+import { CompensationCalculation, HouseholdData, HouseholdEarner, TaxProfile } from '@/types';
+import { HouseholdCalculator } from './household-calculator';
+import { TaxCalculator } from './tax-calculator';
+
+const rules = TAX_RULES_2024;
+
+// A father with a three-year-old, whose partner earns 15,000 a month
+const taxProfile: TaxProfile = { gender: 'male', children: [{ birthYear: 2021 }] };
+
+const household = (overrides: Partial<HouseholdData['partner']> = {}): HouseholdData => ({
+  partner: {
+    monthlySalary: 15000,
+    taxProfile: { gender: 'female' },
+    ...overrides
+  }
+});
+
+const earner = (overrides: Partial<HouseholdEarner> = {}): HouseholdEarner => ({
+  role: 'self',
+  grossIncome: 300000,
+  takeHome: 200000,
+  creditPoints: { taxYear: 2024, totalPoints: 2.25, childPoints: 0, components: [] },
+  childCreditValue: 0,
+  ...overrides
+});
+
+describe('HouseholdCalculator', () => {
+  it('gives the partner their own credit points for the shared children', () => {
+    const partner = HouseholdCalculator.calculatePartner(household(), taxProfile, rules);
+
+    expect(partner.creditPoints.totalPoints).toBe(2.25 + 0.5 + 2.5);
+    expect(partner.creditPoints.childPoints).toBe(2.5);
+    expect(partner.takeHome).toBeCloseTo(TaxCalculator.getNetSalary(15000, 5.25, rules).netSalary * 12);
+    expect(partner.childCreditValue).toBeCloseTo(2.5 * 245 * 12);
+  });
+
+  it('values child points by the tax they save at the earner income', () => {
+    expect(HouseholdCalculator.calculateChildCreditValue(20000, 6.25, 4, rules)).toBeCloseTo(4 * 245 * 12);
+    expect(HouseholdCalculator.calculateChildCreditValue(20000, 2.25, 0, rules)).toBe(0);
+    // Below the tax due on the credit points alone, children save nothing
+    expect(HouseholdCalculator.calculateChildCreditValue(5000, 6.25, 4, rules)).toBe(0);
+  });
+
+  it('combines the earners and swaps only the package holder for another offer', () => {
+    const summary = HouseholdCalculator.summarize([
+      earner(),
+      earner({ role: 'partner', grossIncome: 180000, takeHome: 140000, childCreditValue: 7350 })
+    ]);
+    const offer = { breakdown: { baseSalary: { net: 230000 } } } as CompensationCalculation;
+
+    expect(summary.totalGrossIncome).toBe(480000);
+    expect(summary.totalTakeHome).toBe(340000);
+    expect(HouseholdCalculator.compareOffer(summary, offer)).toEqual({ currentTakeHome: 340000, offerTakeHome: 370000, change: 30000 });
+  });
+});
@@ -0,0 +1,104 @@
+import { CompensationCalculation, HouseholdData, HouseholdEarner, HouseholdSummary, TaxProfile, TaxRules } from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
+import { TaxCalculator } from './tax-calculator';
+import { CreditPointsCalculator } from './credit-points-calculator';
+
+export class HouseholdCalculator {
+  /**
+   * Partner's tax profile - their own personal details with the household's shared children and residence
+   */
+  static getPartnerProfile(household: HouseholdData, taxProfile: TaxProfile): TaxProfile {
+    return {
+      ...household.partner.taxProfile,
+      children: taxProfile.children,
+      residenceLocality: taxProfile.residenceLocality
+    };
+  }
+
+  /**
+   * Annual income tax saved through child credit points at a monthly taxable income
+   */
+  static calculateChildCreditValue(monthlyIncome: number, totalPoints: number, childPoints: number, rules: TaxRules = getTaxRules()): number {
+    if (childPoints <= 0) return 0;
+
+    const taxWithoutChildren = TaxCalculator.calculateIncomeTax(monthlyIncome, totalPoints - childPoints, rules);
+    const taxWithChildren = TaxCalculator.calculateIncomeTax(monthlyIncome, totalPoints, rules);
+    return (taxWithoutChildren - taxWithChildren) * 12;
+  }
+
+  /**
+   * Calculate the partner as a salaried earner with their own credit points and pension contribution rate
+   */
+  static calculatePartner(household: HouseholdData, taxProfile: TaxProfile, rules: TaxRules = getTaxRules()): HouseholdEarner {
+    const { monthlySalary, pensionEmployeeContribution } = household.partner;
+    const partnerProfile = this.getPartnerProfile(household, taxProfile);
+    const creditPoints = CreditPointsCalculator.calculateCreditPoints(partnerProfile, rules);
+    const netSalary = TaxCalculator.getNetSalary(
+      monthlySalary,
+      creditPoints.totalPoints,
+      rules,
+      pensionEmployeeContribution !== undefined ? pensionEmployeeContribution / 100 : rules.pension.employee.rate,
+      partnerProfile.residenceLocality
+    ).netSalary;
+
+    return {
+      role: 'partner',
+      grossIncome: monthlySalary * 12,
+      takeHome: netSalary * 12,
+      creditPoints,
+      childCreditValue: this.calculateChildCreditValue(monthlySalary, creditPoints.totalPoints, creditPoints.childPoints, rules)
+    };
+  }
+
+  /**
+   * Package holder as a household earner - take-home is the net salary or contractor income
+   */
+  static calculatePackageEarner(calculation: CompensationCalculation, taxProfile: TaxProfile, rules: TaxRules = getTaxRules()): HouseholdEarner {
+    const creditPoints = CreditPointsCalculator.calculateCreditPoints(taxProfile, rules);
+
+    return {
+      role: 'self',
+      grossIncome: calculation.breakdown.baseSalary.gross,
+      takeHome: calculation.breakdown.baseSalary.net,
+      creditPoints,
+      childCreditValue: this.calculateChildCreditValue(
+        calculation.taxImplications.grossSalary / 12,
+        creditPoints.totalPoints,
+        creditPoints.childPoints,
+        rules
+      )
+    };
+  }
+
+  /**
+   * Combine both earners into household totals
+   */
+  static summarize(earners: HouseholdEarner[]): HouseholdSummary {
+    return {
+      earners,
+      totalGrossIncome: earners.reduce((sum, earner) => sum + earner.grossIncome, 0),
+      totalTakeHome: earners.reduce((sum, earner) => sum + earner.takeHome, 0),
+      childCreditValue: earners.reduce((sum, earner) => sum + earner.childCreditValue, 0)
+    };
+  }
+
+  /**
+   * Household take-home if the package holder's income is replaced by another offer, partner unchanged
+   */
+  static compareOffer(household: HouseholdSummary, offer: CompensationCalculation): {
+    currentTakeHome: number;
+    offerTakeHome: number;
+    change: number;
+  } {
+    const partnerTakeHome = household.earners
+      .filter(earner => earner.role === 'partner')
+      .reduce((sum, earner) => sum + earner.takeHome, 0);
+    const offerTakeHome = partnerTakeHome + offer.breakdown.baseSalary.net;
+
+    return {
+      currentTakeHome: household.totalTakeHome,
+      offerTakeHome,
+      change: offerTakeHome - household.totalTakeHome
+    };
+  }
+}
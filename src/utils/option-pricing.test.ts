@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { OptionPricingInputs } from '@/types';
+import { OptionPricer } from './option-pricing';
+
+const pricing = (overrides: Partial<OptionPricingInputs> = {}): OptionPricingInputs => ({
+  model: 'black-scholes',
+  volatility: 20,
+  riskFreeRate: 5,
+  expectedTermYears: 1,
+  dividendYield: 0,
+  ...overrides
+});
+
+describe('OptionPricer', () => {
+  it('matches the textbook Black-Scholes value for an at-the-money call', () => {
+    // S = K = 100, one year, 20% volatility, 5% risk-free rate
+    expect(OptionPricer.blackScholesCall(100, 100, pricing())).toBeCloseTo(10.4506, 3);
+  });
+
+  it('falls back to the discounted spread without volatility or time', () => {
+    expect(OptionPricer.blackScholesCall(120, 100, pricing({ volatility: 0, riskFreeRate: 0 }))).toBeCloseTo(20, 6);
+    expect(OptionPricer.blackScholesCall(80, 100, pricing({ expectedTermYears: 0 }))).toBe(0);
+  });
+
+  it('converges the binomial price to Black-Scholes as steps increase', () => {
+    const inputs = pricing({ model: 'binomial' });
+    const blackScholes = OptionPricer.blackScholesCall(100, 100, inputs);
+    const coarseError = Math.abs(OptionPricer.binomialCall(100, 100, inputs, 20) - blackScholes);
+    const fineError = Math.abs(OptionPricer.binomialCall(100, 100, inputs, 800) - blackScholes);
+
+    expect(fineError).toBeLessThan(coarseError);
+    expect(fineError).toBeLessThan(0.01);
+  });
+
+  it('values early exercise above the European price when the stock pays dividends', () => {
+    const inputs = pricing({ dividendYield: 8, expectedTermYears: 5 });
+    expect(OptionPricer.binomialCall(100, 80, inputs)).toBeGreaterThan(OptionPricer.blackScholesCall(100, 80, inputs));
+  });
+
+  it('uses intrinsic value when no pricing model is set', () => {
+    expect(OptionPricer.valuePerShare(30, 10)).toBe(20);
+    expect(OptionPricer.valuePerShare(5, 10)).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { OptionPricingInputs } from '@/types';
+import { OPTION_PRICING_MODEL_LABELS } from '@/constants/israeli-tax';
+
+const BINOMIAL_STEPS = 200;
+
+export class OptionPricer {
+  /**
+   * Standard normal cumulative distribution (Abramowitz-Stegun approximation)
+   */
+  static normalCdf(x: number): number {
+    const t = 1 / (1 + 0.2316419 * Math.abs(x));
+    const density = Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+    const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    return x >= 0 ? 1 - tail : tail;
+  }
+
+  /**
+   * Black-Scholes value of a European call per share, with a continuous dividend yield
+   */
+  static blackScholesCall(spot: number, strike: number, pricing: OptionPricingInputs): number {
+    const { years, volatility, riskFreeRate, dividendYield } = this.toRates(pricing);
+    if (spot <= 0) return 0;
+    if (strike <= 0) return spot * Math.exp(-dividendYield * years);
+    if (years <= 0 || volatility <= 0) {
+      return Math.max(0, spot * Math.exp(-dividendYield * years) - strike * Math.exp(-riskFreeRate * years));
+    }
+
+    const volatilityTerm = volatility * Math.sqrt(years);
+    const d1 = (Math.log(spot / strike) + (riskFreeRate - dividendYield + volatility * volatility / 2) * years) / volatilityTerm;
+    const d2 = d1 - volatilityTerm;
+
+    return spot * Math.exp(-dividendYield * years) * this.normalCdf(d1) -
+      strike * Math.exp(-riskFreeRate * years) * this.normalCdf(d2);
+  }
+
+  /**
+   * Cox-Ross-Rubinstein binomial value of an American call per share, allowing early exercise at each step
+   */
+  static binomialCall(spot: number, strike: number, pricing: OptionPricingInputs, steps: number = BINOMIAL_STEPS): number {
+    const { years, volatility, riskFreeRate, dividendYield } = this.toRates(pricing);
+    if (spot <= 0) return 0;
+    if (years <= 0 || volatility <= 0) return Math.max(0, spot - strike);
+
+    const dt = years / steps;
+    const up = Math.exp(volatility * Math.sqrt(dt));
+    const down = 1 / up;
+    const discount = Math.exp(-riskFreeRate * dt);
+    const upProbability = (Math.exp((riskFreeRate - dividendYield) * dt) - down) / (up - down);
+
+    // Payoffs at expiry, then roll back taking the better of holding and exercising
+    const values: number[] = [];
+    for (let i = 0; i <= steps; i++) {
+      values.push(Math.max(0, spot * Math.pow(up, steps - i) * Math.pow(down, i) - strike));
+    }
+    for (let step = steps - 1; step >= 0; step--) {
+      for (let i = 0; i <= step; i++) {
+        const holdValue = discount * (upProbability * values[i] + (1 - upProbability) * values[i + 1]);
+        const exerciseValue = spot * Math.pow(up, step - i) * Math.pow(down, i) - strike;
+        values[i] = Math.max(holdValue, exerciseValue);
+      }
+    }
+
+    return values[0];
+  }
+
+  /**
+   * Value of one option under the grant's pricing model - intrinsic value when no model is set
+   */
+  static valuePerShare(spot: number, strike: number, pricing?: OptionPricingInputs): number {
+    switch (pricing?.model) {
+      case 'black-scholes':
+        return this.blackScholesCall(spot, strike, pricing);
+      case 'binomial':
+        return this.binomialCall(spot, strike, pricing);
+      default:
+        return Math.max(0, spot - strike);
+    }
+  }
+
+  /**
+   * Describe the model and the inputs used, for the valuation assumptions
+   */
+  static describe(spot: number, strike: number, pricing?: OptionPricingInputs): string {
+    const value = this.valuePerShare(spot, strike, pricing);
+    if (!pricing || pricing.model === 'intrinsic') {
+      return `Options valued at intrinsic value: $${spot} - $${strike} = $${value.toFixed(2)} per share`;
+    }
+
+    return `Options valued with ${OPTION_PRICING_MODEL_LABELS[pricing.model]} at $${value.toFixed(2)} per share ` +
+      `(stock $${spot}, strike $${strike}, volatility ${pricing.volatility}%, risk-free rate ${pricing.riskFreeRate}%, ` +
+      `expected term ${pricing.expectedTermYears} years, dividend yield ${pricing.dividendYield}%)`;
+  }
+
+  /**
+   * Convert the percentage inputs to annual decimal rates
+   */
+  private static toRates(pricing: OptionPricingInputs): {
+    years: number;
+    volatility: number;
+    riskFreeRate: number;
+    dividendYield: number;
+  } {
+    return {
+      years: Math.max(0, pricing.expectedTermYears),
+      volatility: Math.max(0, pricing.volatility) / 100,
+      riskFreeRate: pricing.riskFreeRate / 100,
+      dividendYield: pricing.dividendYield / 100
+    };
+  }
+}
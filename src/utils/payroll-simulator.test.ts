@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { TAX_RULES_2024 } from '@/constants/tax-rules';
+import { PayrollSimulator } from './payroll-simulator';
+import { TaxCalculator } from './tax-calculator';
+
+const rules = TAX_RULES_2024;
+
+// 25,000 a month with a 60,000 bonus paid in March
+const withBonus = () => PayrollSimulator.buildMonthInputs(25000, { 3: 60000 });
+
+describe('PayrollSimulator', () => {
+  it('places the bonus and equity income in their months', () => {
+    const inputs = PayrollSimulator.buildMonthInputs(25000, { 3: 60000 }, { 6: 10000 }, 2000);
+
+    expect(inputs).toHaveLength(12);
+    expect(inputs[2].bonus).toBe(60000);
+    expect(inputs[5].equityIncome).toBe(10000);
+    expect(inputs.every(input => input.overtime === 2000)).toBe(true);
+  });
+
+  it('deducts pension from base salary only and social contributions from the whole salary including overtime', () => {
+    const month = PayrollSimulator.simulateYear(PayrollSimulator.buildMonthInputs(20000, {}, {}, 4000), 2.25, 'cumulative', rules).months[0];
+
+    expect(month.grossSalary).toBe(24000);
+    expect(month.pensionContributions).toBeCloseTo(20000 * 0.06);
+    expect(month.bituachLeumi).toBeCloseTo(TaxCalculator.calculateBituachLeumi(24000, rules).employee);
+  });
+
+  it('withholds the annual liability exactly for a flat salary under either method', () => {
+    const inputs = PayrollSimulator.buildMonthInputs(25000);
+
+    expect(PayrollSimulator.simulateYear(inputs, 2.25, 'monthly', rules).reconciliation).toBeCloseTo(0);
+    expect(PayrollSimulator.simulateYear(inputs, 2.25, 'cumulative', rules).reconciliation).toBeCloseTo(0);
+  });
+
+  it('over-withholds in a bonus month when each month is taxed on its own', () => {
+    const monthly = PayrollSimulator.simulateYear(withBonus(), 2.25, 'monthly', rules);
+
+    expect(monthly.annualGross).toBe(25000 * 12 + 60000);
+    expect(monthly.reconciliation).toBeGreaterThan(0);
+  });
+
+  it('settles to the annual liability by December with cumulative withholding', () => {
+    const cumulative = PayrollSimulator.simulateYear(withBonus(), 2.25, 'cumulative', rules);
+
+    expect(cumulative.withholdingMethod).toBe('cumulative');
+    expect(cumulative.totalWithheld).toBeCloseTo(cumulative.annualLiability);
+    expect(cumulative.months[2].incomeTaxWithheld).toBeGreaterThan(cumulative.months[1].incomeTaxWithheld);
+  });
+});
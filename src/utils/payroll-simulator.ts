@@ -0,0 +1,103 @@
+import { PayrollMonth, PayrollMonthInput, PayrollSimulation, TaxRules, WithholdingMethod } from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
+import { TaxCalculator } from './tax-calculator';
+
+export class PayrollSimulator {
+  /**
+   * Simulate 12 months of payroll withholding and reconcile it against the annual tax liability
+   */
+  static simulateYear(
+    monthInputs: PayrollMonthInput[],
+    taxPoints?: number,
+    withholdingMethod: WithholdingMethod = 'monthly',
+    rules: TaxRules = getTaxRules(),
+    residenceLocality?: string,
+    pensionEmployeeRate: number = rules.pension.employee.rate
+  ): PayrollSimulation {
+    const months: PayrollMonth[] = [];
+    let cumulativeGross = 0;
+    let cumulativeIncomeTax = 0;
+    let cumulativeSurtax = 0;
+    let cumulativePensionCredit = 0;
+    let cumulativeResidenceCredit = 0;
+
+    monthInputs.forEach((input, index) => {
+      const monthNumber = index + 1;
+      const grossSalary = input.baseSalary + input.overtime + input.bonus + input.equityIncome;
+      cumulativeGross += grossSalary;
+
+      let incomeTaxWithheld: number;
+      let surtaxWithheld: number;
+
+      // Pension contributions are deducted from base salary only, so the pension credit follows the base salary
+      const pensionCredit = TaxCalculator.calculatePensionTaxBenefit(input.baseSalary, taxPoints, rules, pensionEmployeeRate).totalSaving;
+      cumulativePensionCredit += pensionCredit;
+      const residenceCredit = TaxCalculator.calculateResidenceCredit(grossSalary, residenceLocality, rules);
+      cumulativeResidenceCredit += residenceCredit;
+
+      if (withholdingMethod === 'cumulative') {
+        // Tax on year-to-date income against year-to-date brackets and credits, less what was already withheld
+        const averageGross = cumulativeGross / monthNumber;
+        incomeTaxWithheld = Math.max(0, TaxCalculator.calculateIncomeTax(averageGross, taxPoints, rules) * monthNumber - cumulativePensionCredit - cumulativeResidenceCredit) - cumulativeIncomeTax;
+        surtaxWithheld = TaxCalculator.calculateSurtax(averageGross * 12, 0, rules) * monthNumber / 12 - cumulativeSurtax;
+      } else {
+        // Each month is taxed on its own as if it repeated all year
+        incomeTaxWithheld = Math.max(0, TaxCalculator.calculateIncomeTax(grossSalary, taxPoints, rules) - pensionCredit - residenceCredit);
+        surtaxWithheld = TaxCalculator.calculateSurtax(grossSalary * 12, 0, rules) / 12;
+      }
+      cumulativeIncomeTax += incomeTaxWithheld;
+      cumulativeSurtax += surtaxWithheld;
+
+      // Social contributions are assessed month by month; pension and study fund only on base salary
+      const bituachLeumi = TaxCalculator.calculateBituachLeumi(grossSalary, rules).employee;
+      const healthTax = TaxCalculator.calculateHealthTax(grossSalary, rules);
+      const pensionContributions = TaxCalculator.calculatePensionContributions(input.baseSalary, rules, pensionEmployeeRate).employee;
+      const studyFundContributions = TaxCalculator.calculateStudyFundContributions(input.baseSalary, rules).employee;
+
+      months.push({
+        ...input,
+        month: monthNumber,
+        grossSalary,
+        incomeTaxWithheld,
+        surtaxWithheld,
+        bituachLeumi,
+        healthTax,
+        pensionContributions,
+        studyFundContributions,
+        netSalary: grossSalary - incomeTaxWithheld - surtaxWithheld - bituachLeumi - healthTax - pensionContributions - studyFundContributions
+      });
+    });
+
+    const annualGross = cumulativeGross;
+    const annualLiability = Math.max(0, TaxCalculator.calculateIncomeTax(annualGross / 12, taxPoints, rules) * 12 - cumulativePensionCredit - cumulativeResidenceCredit) +
+      TaxCalculator.calculateSurtax(annualGross, 0, rules);
+    const totalWithheld = cumulativeIncomeTax + cumulativeSurtax;
+
+    return {
+      taxYear: rules.year,
+      withholdingMethod,
+      months,
+      annualGross,
+      totalWithheld,
+      annualLiability,
+      reconciliation: totalWithheld - annualLiability
+    };
+  }
+
+  /**
+   * Build the month-by-month payroll inputs from a monthly base salary and overtime and the bonus and equity paid in specific months
+   */
+  static buildMonthInputs(
+    monthlyBaseSalary: number,
+    bonusByMonth: { [month: number]: number } = {},
+    equityIncomeByMonth: { [month: number]: number } = {},
+    monthlyOvertime: number = 0
+  ): PayrollMonthInput[] {
+    return Array.from({ length: 12 }, (_, index) => ({
+      baseSalary: monthlyBaseSalary,
+      overtime: monthlyOvertime,
+      bonus: bonusByMonth[index + 1] || 0,
+      equityIncome: equityIncomeByMonth[index + 1] || 0
+    }));
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { PriceSimulationInputs, VestingEvent } from '@/types';
+import { PriceSimulator } from './price-simulator';
+
+const start = new Date(2026, 0, 1);
+
+const simulation = (overrides: Partial<PriceSimulationInputs> = {}): PriceSimulationInputs => ({
+  expectedReturn: 8,
+  volatility: 35,
+  paths: 500,
+  seed: 42,
+  ...overrides
+});
+
+// 1,000 shares vesting at the end of each of the next four years
+const events: VestingEvent[] = [1, 2, 3, 4].map(year => ({
+  date: new Date(2026 + year, 0, 1),
+  sharesVested: 1000,
+  cumulativeShares: 1000 * year,
+  estimatedValue: 100000
+}));
+
+describe('PriceSimulator', () => {
+  it('gives identical bands for the same seed', () => {
+    const first = PriceSimulator.simulateVesting(events, 100, simulation(), start);
+    expect(PriceSimulator.simulateVesting(events.map(event => ({ ...event })), 100, simulation(), start)).toEqual(first);
+
+    // Push the first result out of the cache so the same seed is simulated again
+    for (let seed = 1000; seed < 1030; seed++) {
+      PriceSimulator.simulateVesting(events, 100, simulation({ seed, paths: 10 }), start);
+    }
+    const second = PriceSimulator.simulateVesting(events, 100, simulation(), start);
+
+    expect(second).not.toBe(first);
+    expect(second).toEqual(first);
+    expect(PriceSimulator.createRandom(7)()).toBe(PriceSimulator.createRandom(7)());
+  });
+
+  it('gives different bands for a different seed', () => {
+    const first = PriceSimulator.simulateVesting(events, 100, simulation(), start);
+    const other = PriceSimulator.simulateVesting(events, 100, simulation({ seed: 43 }), start);
+
+    expect(other.events[3].value.p50).not.toBe(first.events[3].value.p50);
+  });
+
+  it('orders the percentile bands and widens them with time', () => {
+    const result = PriceSimulator.simulateVesting(events, 100, simulation(), start);
+
+    for (const { value } of result.events) {
+      expect(value.p10).toBeLessThanOrEqual(value.p25);
+      expect(value.p25).toBeLessThanOrEqual(value.p50);
+      expect(value.p50).toBeLessThanOrEqual(value.p75);
+      expect(value.p75).toBeLessThanOrEqual(value.p90);
+    }
+    const spread = (index: number) => result.events[index].value.p90 - result.events[index].value.p10;
+    expect(spread(3)).toBeGreaterThan(spread(0));
+  });
+
+  it('caps the number of paths', () => {
+    const capped = PriceSimulator.simulateVesting(events, 100, simulation({ paths: 1e9 }), start);
+    const atCap = PriceSimulator.simulateVesting(events, 100, simulation({ paths: 10000 }), start);
+
+    expect(capped).toEqual(atCap);
+  });
+
+  it('returns a copy that callers can change without affecting the cache', () => {
+    const first = PriceSimulator.simulateVesting(events, 100, simulation(), start);
+    const expected = first.events[0].value.p50;
+    first.events[0].value.p50 = 0;
+    first.years.pop();
+
+    const again = PriceSimulator.simulateVesting(events, 100, simulation(), start);
+    expect(again).not.toBe(first);
+    expect(again.events[0].value.p50).toBe(expected);
+    expect(again.years).toHaveLength(4);
+  });
+});
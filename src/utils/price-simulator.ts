@@ -0,0 +1,198 @@
+import { PercentileBand, PriceSimulationInputs, PriceSimulationResult, VestingEvent } from '@/types';
+import { PRICE_SIMULATION_MAX_PATHS } from '@/constants/israeli-tax';
+
+const TRADING_DAYS_PER_YEAR = 252;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+const MAX_CACHED_RESULTS = 20;
+
+export class PriceSimulator {
+  private static cache = new Map<string, PriceSimulationResult>();
+
+  /**
+   * Seeded uniform random generator (mulberry32) - the same seed always gives the same paths
+   */
+  static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Standard normal draw from two uniform draws (Box-Muller)
+   */
+  static nextNormal(random: () => number): number {
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  /**
+   * Parse closing prices from a price history CSV - uses the Adj Close or Close column when there is a header, else the last column
+   */
+  static parsePriceHistoryCsv(csv: string): { prices: number[]; periodsPerYear: number } {
+    const rows = csv.trim().split(/\r?\n/)
+      .map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')))
+      .filter(row => row.length > 0 && row.some(cell => cell !== ''));
+    if (rows.length === 0) return { prices: [], periodsPerYear: TRADING_DAYS_PER_YEAR };
+
+    const hasHeader = !rows[0].some(cell => cell !== '' && !isNaN(Number(cell)));
+    const header = hasHeader ? rows[0].map(cell => cell.toLowerCase()) : [];
+    const adjustedClose = header.indexOf('adj close');
+    const close = header.indexOf('close');
+    const priceColumn = adjustedClose >= 0 ? adjustedClose : close >= 0 ? close : rows[0].length - 1;
+    const dateColumn = hasHeader ? header.indexOf('date') : rows[0].length > 1 ? 0 : -1;
+
+    const observations = rows.slice(hasHeader ? 1 : 0)
+      .map(row => ({ date: dateColumn >= 0 ? Date.parse(row[dateColumn]) : NaN, price: Number(row[priceColumn]) }))
+      .filter(observation => isFinite(observation.price) && observation.price > 0);
+
+    // Order by date when every row has one, and infer the sampling frequency from the date range
+    const dated = observations.length > 1 && observations.every(observation => !isNaN(observation.date));
+    if (dated) observations.sort((a, b) => a.date - b.date);
+    const years = dated ? (observations[observations.length - 1].date - observations[0].date) / MS_PER_YEAR : 0;
+
+    return {
+      prices: observations.map(observation => observation.price),
+      periodsPerYear: years > 0 ? (observations.length - 1) / years : TRADING_DAYS_PER_YEAR
+    };
+  }
+
+  /**
+   * Annual expected return and volatility (in %) from a price series, using log returns
+   */
+  static calibrate(prices: number[], periodsPerYear: number = TRADING_DAYS_PER_YEAR): { expectedReturn: number; volatility: number } {
+    const logReturns = prices.slice(1).map((price, index) => Math.log(price / prices[index]));
+    if (logReturns.length < 2) return { expectedReturn: 0, volatility: 0 };
+
+    const mean = logReturns.reduce((sum, value) => sum + value, 0) / logReturns.length;
+    const variance = logReturns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (logReturns.length - 1);
+    const volatility = Math.sqrt(variance * periodsPerYear);
+
+    return {
+      expectedReturn: (mean * periodsPerYear + volatility * volatility / 2) * 100,
+      volatility: volatility * 100
+    };
+  }
+
+  /**
+   * Simulate the share price along each future vest with geometric Brownian motion, in percentile bands per vest and per year.
+   * Results are cached by seed and inputs, and each caller gets its own copy
+   */
+  static simulateVesting(
+    events: VestingEvent[],
+    currentPrice: number,
+    inputs: PriceSimulationInputs,
+    startDate: Date = new Date()
+  ): PriceSimulationResult {
+    // Time is measured from the start of the day, so reruns on the same day give identical bands
+    const start = new Date(startDate);
+    start.setHours(0, 0, 0, 0);
+    const paths = Math.min(PRICE_SIMULATION_MAX_PATHS, Math.max(1, Math.round(inputs.paths) || 1));
+    const sorted = [...events].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const cacheKey = JSON.stringify([
+      inputs.seed, inputs.expectedReturn, inputs.volatility, paths, currentPrice, start.getTime(),
+      sorted.map(event => [event.date.getTime(), event.sharesVested])
+    ]);
+    const cached = this.cache.get(cacheKey);
+    if (cached) return this.copyResult(cached);
+
+    const result = this.runSimulation(sorted, currentPrice, inputs, paths, start);
+    if (this.cache.size >= MAX_CACHED_RESULTS) {
+      const oldest = this.cache.keys().next();
+      if (!oldest.done) this.cache.delete(oldest.value);
+    }
+    this.cache.set(cacheKey, result);
+    return this.copyResult(result);
+  }
+
+  /**
+   * Copy a cached result so callers cannot change what later calls get back
+   */
+  private static copyResult(result: PriceSimulationResult): PriceSimulationResult {
+    return {
+      events: result.events.map(event => ({ ...event, date: new Date(event.date), value: { ...event.value } })),
+      years: result.years.map(year => ({ ...year, value: { ...year.value } }))
+    };
+  }
+
+  /**
+   * Run the paths for vests sorted by date
+   */
+  private static runSimulation(
+    sorted: VestingEvent[],
+    currentPrice: number,
+    inputs: PriceSimulationInputs,
+    paths: number,
+    start: Date
+  ): PriceSimulationResult {
+    const random = this.createRandom(inputs.seed);
+    const drift = inputs.expectedReturn / 100;
+    const volatility = Math.max(0, inputs.volatility) / 100;
+    const years = Array.from(new Set(sorted.map(event => event.date.getFullYear())));
+
+    const eventValues: number[][] = sorted.map(() => []);
+    const yearValues: number[][] = years.map(() => []);
+
+    for (let path = 0; path < paths; path++) {
+      let price = currentPrice;
+      let elapsed = 0;
+      const pathYearValues = years.map(() => 0);
+
+      sorted.forEach((event, index) => {
+        // Vests already behind us happened at today's known price
+        const time = Math.max(0, (event.date.getTime() - start.getTime()) / MS_PER_YEAR);
+        const step = time - elapsed;
+        if (step > 0) {
+          price *= Math.exp((drift - volatility * volatility / 2) * step + volatility * Math.sqrt(step) * this.nextNormal(random));
+          elapsed = time;
+        }
+
+        const value = event.sharesVested * price;
+        eventValues[index].push(value);
+        pathYearValues[years.indexOf(event.date.getFullYear())] += value;
+      });
+
+      pathYearValues.forEach((value, index) => yearValues[index].push(value));
+    }
+
+    return {
+      events: sorted.map((event, index) => ({
+        date: event.date,
+        sharesVested: event.sharesVested,
+        value: this.getPercentileBand(eventValues[index])
+      })),
+      years: years.map((year, index) => ({
+        year,
+        value: this.getPercentileBand(yearValues[index])
+      }))
+    };
+  }
+
+  /**
+   * p10 to p90 of a set of simulated values, interpolating between ranks
+   */
+  static getPercentileBand(values: number[]): PercentileBand {
+    const sorted = [...values].sort((a, b) => a - b);
+    const percentile = (q: number): number => {
+      if (sorted.length === 0) return 0;
+      const rank = q * (sorted.length - 1);
+      const lower = Math.floor(rank);
+      const upper = Math.min(sorted.length - 1, lower + 1);
+      return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+    };
+
+    return {
+      p10: percentile(0.1),
+      p25: percentile(0.25),
+      p50: percentile(0.5),
+      p75: percentile(0.75),
+      p90: percentile(0.9)
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { TAX_RULES_2024 } from '@/constants/tax-rules';
+import { SelfEmployedData } from '@/types';
+import { SelfEmployedCalculator } from './self-employed-calculator';
+import { TaxCalculator } from './tax-calculator';
+
+const rules = TAX_RULES_2024;
+
+const contractor = (overrides: Partial<SelfEmployedData> = {}): SelfEmployedData => ({
+  dealerType: 'murshe',
+  monthlyExpenses: 2000,
+  pensionRate: 16.5,
+  studyFundRate: 4.5,
+  ...overrides
+});
+
+describe('SelfEmployedCalculator', () => {
+  it('remits VAT net of the VAT reclaimed on expenses, and charges none as an osek patur', () => {
+    const murshe = SelfEmployedCalculator.calculateVat(300000, contractor(), rules);
+    const patur = SelfEmployedCalculator.calculateVat(150000, contractor({ dealerType: 'patur' }), rules);
+
+    expect(murshe.vatPayable).toBeCloseTo(300000 * 0.17 - 24000 * 0.17);
+    expect(patur.vatPayable).toBe(0);
+    expect(patur.exceedsExemptCeiling).toBe(true);
+  });
+
+  it('charges self-employed Bituach Leumi and deducts 52% of it', () => {
+    const socialSecurity = SelfEmployedCalculator.calculateSocialSecurity(20000, rules);
+
+    expect(socialSecurity.bituachLeumi).toBeCloseTo(7522 * 0.0287 + 12478 * 0.1283);
+    expect(socialSecurity.healthTax).toBeCloseTo(TaxCalculator.calculateHealthTax(20000, rules));
+    expect(socialSecurity.deductible).toBeCloseTo(socialSecurity.bituachLeumi * 0.52);
+  });
+
+  it('deposits at least the mandatory pension', () => {
+    const mandatory = 6268 * 0.0445 + (12536 - 6268) * 0.1255;
+
+    expect(SelfEmployedCalculator.calculatePensionDeposit(20000, 0.05, rules).deposit).toBeCloseTo(mandatory);
+    expect(SelfEmployedCalculator.calculatePensionDeposit(20000, 0.165, rules).deposit).toBeCloseTo(20000 * 0.165);
+  });
+
+  it('adds the tax on imputed income to the annual totals', () => {
+    const withoutImputed = SelfEmployedCalculator.getAnnualTaxBreakdown(40000, contractor(), 2.25, rules);
+    const withImputed = SelfEmployedCalculator.getAnnualTaxBreakdown(40000, contractor(), 2.25, rules, {
+      ordinaryIncome: 0,
+      capitalIncome: 0,
+      imputedIncome: 12000
+    });
+    const imputedTax = TaxCalculator.calculateStackedTax((40000 - 2000) * 12, 12000, 2.25, true, rules);
+
+    expect(withImputed.incomeTax - withoutImputed.incomeTax).toBeCloseTo(imputedTax.incomeTax);
+    expect(withImputed.totalDeductions - withoutImputed.totalDeductions).toBeCloseTo(imputedTax.total);
+  });
+
+  it('taxes a personal company at the corporate rate and the dividend at the controlling shareholder rate', () => {
+    const annualBreakdown = SelfEmployedCalculator.getAnnualTaxBreakdown(50000, contractor({ monthlyExpenses: 0 }), 2.25, rules);
+    const company = SelfEmployedCalculator.calculatePersonalCompany(600000, contractor({ monthlyExpenses: 0 }), annualBreakdown, rules);
+
+    expect(company.corporateTax).toBeCloseTo(600000 * 0.23);
+    expect(company.dividendTax).toBeCloseTo(462000 * 0.3);
+    expect(company.netIncome).toBeCloseTo(462000 * 0.7);
+    expect(company.contractorNetIncome).toBeCloseTo(
+      annualBreakdown.netSalary + annualBreakdown.pensionContributions + annualBreakdown.studyFundContributions
+    );
+  });
+});
@@ -0,0 +1,352 @@
+import { EmployerCostLine, EmployerCostReport, PayrollMonth, PayrollSimulation, PerksData, PersonalCompanyComparison, SelfEmployedData, TaxBreakdown, TaxRules } from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
+import { TaxCalculator } from './tax-calculator';
+import { BenefitsCalculator } from './benefits-calculator';
+
+export class SelfEmployedCalculator {
+  /**
+   * Calculate VAT on the annual fees - an osek murshe charges VAT on top and remits it net of VAT paid on expenses
+   */
+  static calculateVat(annualFees: number, selfEmployed: SelfEmployedData, rules: TaxRules = getTaxRules()): {
+    vatCharged: number;
+    inputVat: number;
+    vatPayable: number;
+    exceedsExemptCeiling: boolean;
+  } {
+    const inputVat = selfEmployed.monthlyExpenses * 12 * rules.vat.rate;
+
+    // An osek patur charges no VAT and cannot reclaim the VAT it pays
+    if (selfEmployed.dealerType === 'patur') {
+      return {
+        vatCharged: 0,
+        inputVat,
+        vatPayable: 0,
+        exceedsExemptCeiling: annualFees > rules.vat.exemptDealerTurnoverCeiling
+      };
+    }
+
+    const vatCharged = annualFees * rules.vat.rate;
+    return {
+      vatCharged,
+      inputVat,
+      vatPayable: vatCharged - inputVat,
+      exceedsExemptCeiling: false
+    };
+  }
+
+  /**
+   * Calculate Bituach Leumi and health tax on monthly business income, and the share of Bituach Leumi deductible from taxable income
+   */
+  static calculateSocialSecurity(monthlyIncome: number, rules: TaxRules = getTaxRules()): {
+    bituachLeumi: number;
+    healthTax: number;
+    deductible: number;
+  } {
+    const bituachLeumi = TaxCalculator.calculateTwoTierContribution(monthlyIncome, rules.bituachLeumi, rules.selfEmployed.bituachLeumi);
+
+    return {
+      bituachLeumi,
+      healthTax: TaxCalculator.calculateHealthTax(monthlyIncome, rules),
+      deductible: bituachLeumi * rules.selfEmployed.bituachLeumiDeductibleShare
+    };
+  }
+
+  /**
+   * Calculate the monthly pension deposit - at least the mandatory minimum - and the part that is deductible or earns the credit
+   */
+  static calculatePensionDeposit(monthlyIncome: number, pensionRate: number, rules: TaxRules = getTaxRules()): {
+    deposit: number;
+    mandatoryDeposit: number;
+    deductibleDeposit: number;
+    creditableDeposit: number;
+    credit: number;
+  } {
+    const { mandatoryPension, pension } = rules.selfEmployed;
+    const mandatoryDeposit = TaxCalculator.calculateTwoTierContribution(monthlyIncome, mandatoryPension, mandatoryPension);
+    const deposit = Math.max(monthlyIncome * pensionRate, mandatoryDeposit);
+
+    // The deduction is used first, the credit applies to the next slice of qualifying income
+    const qualifyingIncome = Math.min(monthlyIncome, pension.annualIncomeCeiling / 12);
+    const deductibleDeposit = Math.min(deposit, qualifyingIncome * pension.deductionRate);
+    const creditableDeposit = Math.min(deposit - deductibleDeposit, qualifyingIncome * pension.creditContributionRate);
+
+    return {
+      deposit,
+      mandatoryDeposit,
+      deductibleDeposit,
+      creditableDeposit,
+      credit: creditableDeposit * rules.pension.taxBenefit.creditRate
+    };
+  }
+
+  /**
+   * Calculate the monthly self-employed study fund deposit and its deductible part
+   */
+  static calculateStudyFundDeposit(monthlyIncome: number, studyFundRate: number, rules: TaxRules = getTaxRules()): {
+    deposit: number;
+    deductibleDeposit: number;
+  } {
+    const { studyFund } = rules.selfEmployed;
+    const deposit = monthlyIncome * studyFundRate;
+
+    return {
+      deposit,
+      deductibleDeposit: Math.min(deposit, Math.min(monthlyIncome, studyFund.annualIncomeCeiling / 12) * studyFund.deductionRate)
+    };
+  }
+
+  /**
+   * Monthly business expenses - an osek patur cannot reclaim VAT, so the VAT it pays is part of the expense
+   */
+  static getMonthlyExpenses(selfEmployed: SelfEmployedData, rules: TaxRules = getTaxRules()): number {
+    const vatRate = selfEmployed.dealerType === 'patur' ? rules.vat.rate : 0;
+    return selfEmployed.monthlyExpenses * (1 + vatRate);
+  }
+
+  /**
+   * Income tax, social security and deposits on monthly fees invoiced before VAT
+   */
+  private static calculateMonthlyTaxes(
+    monthlyFees: number,
+    selfEmployed: SelfEmployedData,
+    taxPoints: number | undefined,
+    rules: TaxRules,
+    residenceLocality: string | undefined
+  ): {
+    businessIncome: number;
+    taxableIncome: number;
+    incomeTax: number;
+    pensionRelief: number;
+    residenceCredit: number;
+    bituachLeumi: number;
+    healthTax: number;
+    surtax: number;
+    pensionDeposit: number;
+    studyFundDeposit: number;
+    totalDeductions: number;
+  } {
+    const businessIncome = Math.max(0, monthlyFees - this.getMonthlyExpenses(selfEmployed, rules));
+    const socialSecurity = this.calculateSocialSecurity(businessIncome, rules);
+    const pension = this.calculatePensionDeposit(businessIncome, selfEmployed.pensionRate / 100, rules);
+    const studyFund = this.calculateStudyFundDeposit(businessIncome, selfEmployed.studyFundRate / 100, rules);
+
+    const incomeBeforePension = Math.max(0, businessIncome - socialSecurity.deductible - studyFund.deductibleDeposit);
+    const taxableIncome = Math.max(0, incomeBeforePension - pension.deductibleDeposit);
+    const incomeTaxBeforeResidence = Math.max(0, TaxCalculator.calculateIncomeTax(taxableIncome, taxPoints, rules) - pension.credit);
+    const pensionRelief = TaxCalculator.calculateIncomeTax(incomeBeforePension, taxPoints, rules) - incomeTaxBeforeResidence;
+    const residenceCredit = Math.min(incomeTaxBeforeResidence, TaxCalculator.calculateResidenceCredit(businessIncome, residenceLocality, rules));
+    const incomeTax = incomeTaxBeforeResidence - residenceCredit;
+    const surtax = TaxCalculator.calculateSurtax(taxableIncome * 12, 0, rules) / 12;
+
+    return {
+      businessIncome,
+      taxableIncome,
+      incomeTax,
+      pensionRelief,
+      residenceCredit,
+      bituachLeumi: socialSecurity.bituachLeumi,
+      healthTax: socialSecurity.healthTax,
+      surtax,
+      pensionDeposit: pension.deposit,
+      studyFundDeposit: studyFund.deposit,
+      totalDeductions: incomeTax + socialSecurity.bituachLeumi + socialSecurity.healthTax + surtax + pension.deposit + studyFund.deposit
+    };
+  }
+
+  /**
+   * Monthly tax breakdown for a contractor, in the same shape as an employee's so packages compare 1:1
+   */
+  static getTaxBreakdown(
+    monthlyFees: number,
+    selfEmployed: SelfEmployedData,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    residenceLocality?: string
+  ): TaxBreakdown {
+    const taxes = this.calculateMonthlyTaxes(monthlyFees, selfEmployed, taxPoints, rules, residenceLocality);
+
+    // Marginal rate on the next ILS invoiced, including deposits as the employee rate includes contributions
+    const nextTaxes = this.calculateMonthlyTaxes(monthlyFees + 100, selfEmployed, taxPoints, rules, residenceLocality);
+    const marginalTaxRate = (nextTaxes.totalDeductions - taxes.totalDeductions) / 100;
+
+    return {
+      incomeTax: taxes.incomeTax,
+      bituachLeumi: taxes.bituachLeumi,
+      employerBituachLeumi: 0,
+      healthTax: taxes.healthTax,
+      surtax: taxes.surtax,
+      pensionContributions: taxes.pensionDeposit,
+      pensionTaxCredit: taxes.pensionRelief,
+      residenceCredit: taxes.residenceCredit,
+      imputedIncome: 0,
+      studyFundContributions: taxes.studyFundDeposit,
+      totalDeductions: taxes.totalDeductions,
+      effectiveTaxRate: monthlyFees > 0 ? taxes.totalDeductions / monthlyFees : 0,
+      marginalTaxRate,
+      creditPoints: taxPoints ?? rules.creditPoints.resident,
+      grossSalary: monthlyFees,
+      netSalary: Math.max(0, taxes.businessIncome - taxes.totalDeductions)
+    };
+  }
+
+  /**
+   * Annual contractor tax breakdown with imputed income taxed on top of the business income and surtax on the fees plus equity and imputed income
+   */
+  static getAnnualTaxBreakdown(
+    monthlyFees: number,
+    selfEmployed: SelfEmployedData,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    otherIncome: { ordinaryIncome: number; capitalIncome: number; imputedIncome?: number } = { ordinaryIncome: 0, capitalIncome: 0 },
+    residenceLocality?: string
+  ): TaxBreakdown {
+    const monthlyBreakdown = this.getTaxBreakdown(monthlyFees, selfEmployed, taxPoints, rules, residenceLocality);
+    const { businessIncome, taxableIncome } = this.calculateMonthlyTaxes(monthlyFees, selfEmployed, taxPoints, rules, residenceLocality);
+    const imputedIncome = otherIncome.imputedIncome || 0;
+    const imputedTax = TaxCalculator.calculateStackedTax(businessIncome * 12, imputedIncome, taxPoints, true, rules);
+    const surtax = TaxCalculator.calculateSurtax(taxableIncome * 12 + otherIncome.ordinaryIncome + imputedIncome, otherIncome.capitalIncome, rules);
+
+    // Net income keeps only the fees' own taxes; the tax on imputed income is charged against the perks it comes from,
+    // and the rest of the surtax is attributed to the other income
+    return {
+      incomeTax: monthlyBreakdown.incomeTax * 12 + imputedTax.incomeTax,
+      bituachLeumi: monthlyBreakdown.bituachLeumi * 12 + imputedTax.bituachLeumi,
+      employerBituachLeumi: 0,
+      healthTax: monthlyBreakdown.healthTax * 12 + imputedTax.healthTax,
+      surtax,
+      pensionContributions: monthlyBreakdown.pensionContributions * 12,
+      pensionTaxCredit: monthlyBreakdown.pensionTaxCredit * 12,
+      residenceCredit: monthlyBreakdown.residenceCredit * 12,
+      imputedIncome,
+      studyFundContributions: monthlyBreakdown.studyFundContributions * 12,
+      totalDeductions: (monthlyBreakdown.totalDeductions - monthlyBreakdown.surtax) * 12 + imputedTax.total + surtax,
+      effectiveTaxRate: monthlyBreakdown.effectiveTaxRate,
+      marginalTaxRate: monthlyBreakdown.marginalTaxRate,
+      creditPoints: monthlyBreakdown.creditPoints,
+      grossSalary: monthlyBreakdown.grossSalary * 12,
+      netSalary: monthlyBreakdown.netSalary * 12
+    };
+  }
+
+  /**
+   * Compare the same fees earned through a personal company that pays corporate tax and distributes its profit as a dividend
+   */
+  static calculatePersonalCompany(
+    annualFees: number,
+    selfEmployed: SelfEmployedData,
+    annualBreakdown: TaxBreakdown,
+    rules: TaxRules = getTaxRules()
+  ): PersonalCompanyComparison {
+    const { corporateTaxRate, dividendTaxRate } = rules.personalCompany;
+
+    // A company is always VAT-registered, so it reclaims the VAT on its expenses
+    const companyProfit = Math.max(0, annualFees - selfEmployed.monthlyExpenses * 12);
+    const corporateTax = companyProfit * corporateTaxRate;
+    const dividend = companyProfit - corporateTax;
+    const dividendTax = dividend * dividendTaxRate + TaxCalculator.calculateSurtax(0, dividend, rules);
+
+    return {
+      companyProfit,
+      corporateTax,
+      dividend,
+      dividendTax,
+      netIncome: dividend - dividendTax,
+      contractorNetIncome: annualBreakdown.netSalary + annualBreakdown.pensionContributions + annualBreakdown.studyFundContributions,
+      assumptions: [
+        `Corporate tax at ${Math.round(corporateTaxRate * 100)}% on the company's profit`,
+        `Profit paid out as a dividend taxed at ${Math.round(dividendTaxRate * 100)}% for a controlling shareholder, plus surtax above the threshold`,
+        'No salary drawn from the company - no pension or study fund deposits, and Bituach Leumi on the dividend is not modelled',
+        'Company running costs such as accounting fees are not included'
+      ]
+    };
+  }
+
+  /**
+   * Spread the year's income tax and social security as equal monthly advances (mikdamot)
+   */
+  static simulateTaxAdvances(monthlyFees: number, annualBreakdown: TaxBreakdown, rules: TaxRules = getTaxRules()): PayrollSimulation {
+    const months: PayrollMonth[] = [];
+
+    for (let month = 1; month <= 12; month++) {
+      months.push({
+        month,
+        baseSalary: monthlyFees,
+        overtime: 0,
+        bonus: 0,
+        equityIncome: 0,
+        grossSalary: monthlyFees,
+        incomeTaxWithheld: annualBreakdown.incomeTax / 12,
+        surtaxWithheld: annualBreakdown.surtax / 12,
+        bituachLeumi: annualBreakdown.bituachLeumi / 12,
+        healthTax: annualBreakdown.healthTax / 12,
+        pensionContributions: annualBreakdown.pensionContributions / 12,
+        studyFundContributions: annualBreakdown.studyFundContributions / 12,
+        netSalary: annualBreakdown.netSalary / 12
+      });
+    }
+
+    // Advances are set from the expected annual liability, so nothing is left to settle
+    const totalWithheld = annualBreakdown.incomeTax + annualBreakdown.surtax;
+    return {
+      taxYear: rules.year,
+      withholdingMethod: 'monthly',
+      months,
+      annualGross: monthlyFees * 12,
+      totalWithheld,
+      annualLiability: totalWithheld,
+      reconciliation: 0
+    };
+  }
+
+  /**
+   * Calculate what the contractor costs the client - fees, perks and equity, with no employer contributions
+   */
+  static calculateClientCost(
+    annualFees: number,
+    selfEmployed: SelfEmployedData,
+    perksData?: PerksData,
+    extras: { annualEquityExpense?: number } = {},
+    rules: TaxRules = getTaxRules()
+  ): EmployerCostReport {
+    const vat = this.calculateVat(annualFees, selfEmployed, rules);
+    const lines: EmployerCostLine[] = [];
+
+    lines.push({
+      label: 'Contractor fees',
+      category: 'salary',
+      annualCost: annualFees,
+      assumption: selfEmployed.dealerType === 'murshe'
+        ? `Before VAT - the ₪${Math.round(vat.vatCharged).toLocaleString()} VAT is reclaimable by a VAT-registered client`
+        : 'Osek patur - no VAT charged'
+    });
+
+    if (perksData) {
+      lines.push({
+        label: 'Perks',
+        category: 'perks',
+        annualCost: BenefitsCalculator.calculatePerksValue(perksData, rules).totalAnnualValue,
+        assumption: 'Valued at market rate or stipend amount'
+      });
+    }
+
+    if (extras.annualEquityExpense && extras.annualEquityExpense > 0) {
+      lines.push({
+        label: 'Equity expense',
+        category: 'equity',
+        annualCost: extras.annualEquityExpense,
+        assumption: 'Current grant value amortized over the vesting period'
+      });
+    }
+
+    const totalCost = lines.reduce((sum, line) => sum + line.annualCost, 0);
+    const costPercentage = annualFees > 0 ? ((totalCost - annualFees) / annualFees) * 100 : 0;
+
+    return {
+      lines,
+      annualSalary: annualFees,
+      totalCost,
+      monthlyCost: totalCost / 12,
+      costPercentage
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { TAX_RULES_2024, TAX_RULES_2025 } from '@/constants/tax-rules';
+import { CompanyCar } from '@/types';
+import { TaxCalculator } from './tax-calculator';
+
+const rules = TAX_RULES_2024;
+
+const car = (overrides: Partial<CompanyCar> = {}): CompanyCar => ({
+  valuation: 'listPrice',
+  listPrice: 200000,
+  priceGroup: 3,
+  fuelType: 'gasoline',
+  fuelCard: false,
+  monthlyFuelValue: 0,
+  employeeParticipation: 0,
+  ...overrides
+});
+
+describe('TaxCalculator', () => {
+  describe('calculateHealthTax', () => {
+    it('charges the reduced rate up to the threshold and the full rate up to the ceiling', () => {
+      expect(TaxCalculator.calculateHealthTax(5000, rules)).toBeCloseTo(5000 * 0.031);
+      expect(TaxCalculator.calculateHealthTax(20000, rules)).toBeCloseTo(7522 * 0.031 + 12478 * 0.05);
+      expect(TaxCalculator.calculateHealthTax(60000, rules)).toBeCloseTo(TaxCalculator.calculateHealthTax(47220, rules));
+    });
+
+    it('is part of the monthly deductions', () => {
+      const breakdown = TaxCalculator.getTaxBreakdown(20000, 2.25, rules);
+
+      expect(breakdown.healthTax).toBeCloseTo(TaxCalculator.calculateHealthTax(20000, rules));
+      expect(breakdown.totalDeductions).toBeCloseTo(
+        breakdown.incomeTax + breakdown.bituachLeumi + breakdown.healthTax + breakdown.surtax + breakdown.pensionContributions + breakdown.studyFundContributions
+      );
+    });
+  });
+
+  describe('calculateBituachLeumi', () => {
+    it('applies the reduced and full rates to the employee and employer shares', () => {
+      const low = TaxCalculator.calculateBituachLeumi(5000, rules);
+      const high = TaxCalculator.calculateBituachLeumi(20000, rules);
+
+      expect(low.employee).toBeCloseTo(5000 * 0.004);
+      expect(low.employer).toBeCloseTo(5000 * 0.0355);
+      expect(high.employee).toBeCloseTo(7522 * 0.004 + 12478 * 0.07);
+      expect(high.employer).toBeCloseTo(7522 * 0.0355 + 12478 * 0.076);
+      expect(high.total).toBeCloseTo(high.employee + high.employer);
+    });
+
+    it('stops at the monthly ceiling', () => {
+      expect(TaxCalculator.calculateBituachLeumi(80000, rules)).toEqual(TaxCalculator.calculateBituachLeumi(47220, rules));
+    });
+  });
+
+  describe('calculateSurtax', () => {
+    it('charges the surtax only on annual income above the threshold', () => {
+      expect(TaxCalculator.calculateSurtax(700000, 0, rules)).toBe(0);
+      expect(TaxCalculator.calculateSurtax(800000, 0, rules)).toBeCloseTo(78440 * 0.03);
+    });
+
+    it('stacks capital income on top of labor income at the additional capital rate from 2025', () => {
+      expect(TaxCalculator.calculateSurtax(700000, 100000, rules)).toBeCloseTo(78440 * 0.03);
+      expect(TaxCalculator.calculateSurtax(700000, 100000, TAX_RULES_2025)).toBeCloseTo(78440 * 0.05);
+      expect(TaxCalculator.calculateSurtax(800000, 100000, TAX_RULES_2025)).toBeCloseTo(178440 * 0.03 + 100000 * 0.02);
+    });
+
+    it('applies to salary, equity and imputed income together in the annual breakdown', () => {
+      const otherIncome = { ordinaryIncome: 100000, capitalIncome: 50000, imputedIncome: 30000 };
+      const breakdown = TaxCalculator.getAnnualTaxBreakdown(50000, 2.25, TAX_RULES_2025, otherIncome);
+
+      expect(breakdown.surtax).toBeCloseTo(TaxCalculator.calculateSurtax(600000 + 100000 + 30000, 50000, TAX_RULES_2025));
+    });
+  });
+
+  describe('calculateStackedTax', () => {
+    it('taxes extra income at the marginal rate above the base income', () => {
+      // 30,000 a month is in the 35% bracket, with full-rate Bituach Leumi and health tax
+      const stacked = TaxCalculator.calculateStackedTax(360000, 12000, 2.25, true, rules);
+
+      expect(stacked.incomeTax).toBeCloseTo(12000 * 0.35);
+      expect(stacked.bituachLeumi).toBeCloseTo(12000 * 0.07);
+      expect(stacked.healthTax).toBeCloseTo(12000 * 0.05);
+      expect(TaxCalculator.calculateStackedTax(360000, 12000, 2.25, false, rules).total).toBeCloseTo(12000 * 0.35);
+    });
+  });
+
+  describe('calculatePensionTaxBenefit', () => {
+    it('credits 35% of contributions up to 7% of the insured salary ceiling', () => {
+      const benefit = TaxCalculator.calculatePensionTaxBenefit(20000, 2.25, rules);
+
+      expect(benefit.contribution).toBeCloseTo(1200);
+      expect(benefit.creditableContribution).toBeCloseTo(9700 * 0.07);
+      expect(benefit.credit).toBeCloseTo(9700 * 0.07 * 0.35);
+      expect(benefit.deductionSaving).toBe(0);
+    });
+
+    it('deducts top-ups above the mandatory rate at the marginal rate', () => {
+      const benefit = TaxCalculator.calculatePensionTaxBenefit(20000, 2.25, rules, 0.07);
+
+      expect(benefit.deductibleContribution).toBeCloseTo(200);
+      expect(benefit.deductionSaving).toBeCloseTo(200 * 0.31);
+      expect(benefit.totalSaving).toBeCloseTo(200 * 0.31 + 9700 * 0.07 * 0.35);
+    });
+
+    it('never credits more than the tax due', () => {
+      expect(TaxCalculator.calculatePensionTaxBenefit(5000, 2.25, rules).credit).toBe(0);
+    });
+  });
+
+  describe('calculateCarBenefit', () => {
+    it('charges 2.48% of the list price a month, up to the maximum list price', () => {
+      expect(TaxCalculator.calculateCarBenefit(car(), rules).monthlyTaxableBenefit).toBeCloseTo(200000 * 0.0248);
+      expect(TaxCalculator.calculateCarBenefit(car({ listPrice: 800000 }), rules).monthlyBenefit).toBeCloseTo(596860 * 0.0248);
+      expect(TaxCalculator.calculateCarBenefit(car({ valuation: 'priceGroup' }), rules).listPrice).toBe(175000);
+    });
+
+    it('reduces the benefit for green cars and by the employee participation', () => {
+      const electric = TaxCalculator.calculateCarBenefit(car({ fuelType: 'electric', employeeParticipation: 500 }), rules);
+
+      expect(electric.greenReduction).toBe(1310);
+      expect(electric.monthlyTaxableBenefit).toBeCloseTo(200000 * 0.0248 - 1310 - 500);
+    });
+  });
+
+  describe('calculateResidenceCredit', () => {
+    it('credits the locality rate on income up to the annual ceiling', () => {
+      expect(TaxCalculator.calculateResidenceCredit(20000, 'eilat', rules)).toBeCloseTo(2000);
+      expect(TaxCalculator.calculateResidenceCredit(30000, 'eilat', rules)).toBeCloseTo(276840 / 12 * 0.1);
+      expect(TaxCalculator.calculateResidenceCredit(20000, undefined, rules)).toBe(0);
+      expect(TaxCalculator.calculateResidenceCredit(20000, 'tel-aviv', rules)).toBe(0);
+    });
+
+    it('nets the credit from income tax without going below zero', () => {
+      const withoutCredit = TaxCalculator.getTaxBreakdown(20000, 2.25, rules);
+      const eilat = TaxCalculator.getTaxBreakdown(20000, 2.25, rules, undefined, 'eilat');
+      const lowIncome = TaxCalculator.getTaxBreakdown(8000, 2.25, rules, undefined, 'eilat');
+
+      expect(eilat.residenceCredit).toBeCloseTo(2000);
+      expect(withoutCredit.incomeTax - eilat.incomeTax).toBeCloseTo(2000);
+      expect(lowIncome.incomeTax).toBe(0);
+      expect(lowIncome.residenceCredit).toBeLessThan(800);
+    });
+  });
+
+  describe('getGrossFromNet', () => {
+    it('solves back to the same gross from its net salary', () => {
+      for (const gross of [10000, 30000, 60000]) {
+        const { netSalary } = TaxCalculator.getNetSalary(gross, 2.25, rules);
+        const rounded = Math.round(netSalary * 100) / 100;
+
+        expect(TaxCalculator.getGrossFromNet(rounded, 2.25, rules).grossSalary).toBe(gross);
+      }
+    });
+
+    it('lands within a shekel of the target net at a higher pension rate and a residence credit', () => {
+      const result = TaxCalculator.getGrossFromNet(18000, 2.25, rules, 'eilat', 0.07);
+
+      expect(Number.isInteger(result.grossSalary)).toBe(true);
+      expect(Math.abs(result.netSalary - 18000)).toBeLessThan(1);
+    });
+
+    it('returns zero gross for a zero target', () => {
+      expect(TaxCalculator.getGrossFromNet(0, 2.25, rules).grossSalary).toBe(0);
+    });
+  });
+
+  describe('getAnnualTaxBreakdown', () => {
+    it('adds the tax on imputed income to the reported deductions', () => {
+      const withoutImputed = TaxCalculator.getAnnualTaxBreakdown(30000, 2.25, rules);
+      const withImputed = TaxCalculator.getAnnualTaxBreakdown(30000, 2.25, rules, { ordinaryIncome: 0, capitalIncome: 0, imputedIncome: 12000 });
+      const imputedTax = TaxCalculator.calculateStackedTax(360000, 12000, 2.25, true, rules);
+
+      expect(withImputed.incomeTax - withoutImputed.incomeTax).toBeCloseTo(imputedTax.incomeTax);
+      expect(withImputed.totalDeductions - withoutImputed.totalDeductions).toBeCloseTo(imputedTax.total);
+      expect(withImputed.netSalary).toBeCloseTo(withoutImputed.netSalary);
+    });
+  });
+});
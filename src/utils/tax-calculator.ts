@@ -1,26 +1,15 @@
-import { TaxBreakdown } from '@/types';
-import { 
-  ISRAELI_TAX_BRACKETS_2024, 
-  BITUACH_LEUMI_2024, 
-  PENSION_RATES_2024,
-  STUDY_FUND_RATES_2024,
-  CAPITAL_GAINS_TAX_2024,
-  TAX_POINTS_2024
-} from '@/constants/israeli-tax';
+import { CompanyCar, ResidenceLocality, TaxBreakdown, TaxRules, TwoTierSchedule, TwoTierRates } from '@/types';
+import { getTaxRules } from '@/constants/tax-rules';
 
 export class TaxCalculator {
   /**
    * Calculate Israeli income tax for a given monthly salary
    */
-  static calculateIncomeTax(monthlySalary: number, taxPoints: number = TAX_POINTS_2024.singlePersonTaxPoints): number {
-    // Apply tax point credit
-    const taxPointCredit = taxPoints * TAX_POINTS_2024.taxPointValue;
-    const taxableIncome = Math.max(0, monthlySalary - taxPointCredit);
-    
+  static calculateIncomeTax(monthlySalary: number, taxPoints?: number, rules: TaxRules = getTaxRules()): number {
     let totalTax = 0;
-    let remainingIncome = taxableIncome;
+    let remainingIncome = Math.max(0, monthlySalary);
     
-    for (const bracket of ISRAELI_TAX_BRACKETS_2024.brackets) {
+    for (const bracket of rules.incomeTaxBrackets) {
       if (remainingIncome <= 0) break;
       
       const taxableInThisBracket = Math.min(
@@ -32,29 +21,216 @@ export class TaxCalculator {
       remainingIncome -= taxableInThisBracket;
     }
     
-    return Math.max(0, totalTax);
+    // Credit points reduce the tax itself, not the taxable income
+    const taxPointCredit = (taxPoints ?? rules.creditPoints.resident) * rules.creditPoints.pointValue;
+    return Math.max(0, totalTax - taxPointCredit);
+  }
+
+  /**
+   * Find an eligible residence locality for the tax year
+   */
+  static getResidenceLocality(residenceLocality: string | undefined, rules: TaxRules = getTaxRules()): ResidenceLocality | undefined {
+    return residenceLocality ? rules.residenceLocalities.find(locality => locality.id === residenceLocality) : undefined;
   }
 
   /**
-   * Calculate Bituach Leumi (Social Security) contribution
+   * Calculate the monthly residence credit - the locality's rate on income up to its annual ceiling
    */
-  static calculateBituachLeumi(monthlySalary: number): number {
-    const applicableSalary = Math.min(monthlySalary, BITUACH_LEUMI_2024.monthlyCeiling);
-    return applicableSalary * BITUACH_LEUMI_2024.rate;
+  static calculateResidenceCredit(monthlyIncome: number, residenceLocality: string | undefined, rules: TaxRules = getTaxRules()): number {
+    const locality = this.getResidenceLocality(residenceLocality, rules);
+    if (!locality) return 0;
+    
+    return Math.min(Math.max(0, monthlyIncome), locality.annualIncomeCeiling / 12) * locality.rate;
+  }
+
+  /**
+   * Income tax on a monthly salary after credit points, pension relief and the residence credit
+   */
+  private static calculateSalaryIncomeTax(
+    grossMonthlySalary: number,
+    taxPoints: number | undefined,
+    rules: TaxRules,
+    pensionEmployeeRate: number,
+    residenceLocality: string | undefined
+  ): {
+    incomeTax: number;
+    pensionTaxCredit: number;
+    residenceCredit: number;
+  } {
+    const pensionTaxBenefit = this.calculatePensionTaxBenefit(grossMonthlySalary, taxPoints, rules, pensionEmployeeRate);
+    const incomeTaxBeforeResidence = this.calculateIncomeTax(grossMonthlySalary, taxPoints, rules) - pensionTaxBenefit.totalSaving;
+    
+    // The residence credit cannot exceed the income tax left to pay
+    const residenceCredit = Math.min(
+      Math.max(0, incomeTaxBeforeResidence),
+      this.calculateResidenceCredit(grossMonthlySalary, residenceLocality, rules)
+    );
+    
+    return {
+      incomeTax: incomeTaxBeforeResidence - residenceCredit,
+      pensionTaxCredit: pensionTaxBenefit.totalSaving,
+      residenceCredit
+    };
+  }
+
+  /**
+   * Apply a reduced rate up to the threshold and a full rate from the threshold up to the ceiling
+   */
+  static calculateTwoTierContribution(
+    monthlySalary: number,
+    tiers: TwoTierSchedule,
+    rates: TwoTierRates
+  ): number {
+    const applicableSalary = Math.min(monthlySalary, tiers.monthlyCeiling);
+    const reducedPortion = Math.min(applicableSalary, tiers.reducedRateThreshold);
+    const fullPortion = Math.max(0, applicableSalary - tiers.reducedRateThreshold);
+    
+    return reducedPortion * rates.reducedRate + fullPortion * rates.fullRate;
+  }
+
+  /**
+   * Calculate Bituach Leumi (Social Security) contributions (employee + employer)
+   */
+  static calculateBituachLeumi(monthlySalary: number, rules: TaxRules = getTaxRules()): {
+    employee: number;
+    employer: number;
+    total: number;
+  } {
+    const employeeContribution = this.calculateTwoTierContribution(monthlySalary, rules.bituachLeumi, rules.bituachLeumi.employee);
+    const employerContribution = this.calculateTwoTierContribution(monthlySalary, rules.bituachLeumi, rules.bituachLeumi.employer);
+    
+    return {
+      employee: employeeContribution,
+      employer: employerContribution,
+      total: employeeContribution + employerContribution
+    };
+  }
+
+  /**
+   * Calculate health tax (Mas Briut) - reduced rate up to 60% of the average wage, full rate up to the ceiling
+   */
+  static calculateHealthTax(monthlySalary: number, rules: TaxRules = getTaxRules()): number {
+    return this.calculateTwoTierContribution(monthlySalary, rules.healthTax, rules.healthTax);
+  }
+
+  /**
+   * Calculate high-income surtax (mas yesef) on annual income above the threshold.
+   * Capital income is stacked on top of labor income and pays the additional capital rate.
+   */
+  static calculateSurtax(annualLaborIncome: number, annualCapitalIncome: number = 0, rules: TaxRules = getTaxRules()): number {
+    const laborIncome = Math.max(0, annualLaborIncome);
+    const capitalIncome = Math.max(0, annualCapitalIncome);
+    const incomeAboveThreshold = Math.max(0, laborIncome + capitalIncome - rules.surtax.annualThreshold);
+    const capitalAboveThreshold = Math.min(capitalIncome, incomeAboveThreshold);
+    
+    return incomeAboveThreshold * rules.surtax.rate + capitalAboveThreshold * rules.surtax.capitalIncomeRate;
+  }
+
+  /**
+   * Calculate the additional annual tax on extra ordinary income stacked on top of annual base income
+   */
+  static calculateStackedTax(
+    annualBaseIncome: number,
+    additionalIncome: number,
+    taxPoints?: number,
+    includeSocialContributions: boolean = true,
+    rules: TaxRules = getTaxRules()
+  ): {
+    incomeTax: number;
+    bituachLeumi: number;
+    healthTax: number;
+    total: number;
+  } {
+    const before = this.getAnnualIncomeTaxes(annualBaseIncome, taxPoints, rules);
+    const after = this.getAnnualIncomeTaxes(annualBaseIncome + Math.max(0, additionalIncome), taxPoints, rules);
+    
+    const incomeTax = after.incomeTax - before.incomeTax;
+    const bituachLeumi = includeSocialContributions ? after.bituachLeumi - before.bituachLeumi : 0;
+    const healthTax = includeSocialContributions ? after.healthTax - before.healthTax : 0;
+    
+    return {
+      incomeTax,
+      bituachLeumi,
+      healthTax,
+      total: incomeTax + bituachLeumi + healthTax
+    };
+  }
+
+  /**
+   * Calculate the annual tax on imputed income (zkifut) - taxed like salary, including surtax, on top of annual salary
+   */
+  static calculateImputedIncomeTax(
+    annualSalary: number,
+    imputedIncome: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules()
+  ): number {
+    if (imputedIncome <= 0) return 0;
+    
+    return this.calculateStackedTax(annualSalary, imputedIncome, taxPoints, true, rules).total +
+      this.calculateSurtax(annualSalary + imputedIncome, 0, rules) - this.calculateSurtax(annualSalary, 0, rules);
+  }
+
+  /**
+   * Calculate the monthly company car benefit (shovi shimush) added to taxable income
+   */
+  static calculateCarBenefit(car: CompanyCar, rules: TaxRules = getTaxRules()): {
+    listPrice: number;
+    monthlyBenefit: number;
+    greenReduction: number;
+    monthlyTaxableBenefit: number;
+  } {
+    const { carBenefit } = rules;
+    const groupIndex = Math.min(Math.max(Math.round(car.priceGroup), 1), carBenefit.priceGroupListPrices.length) - 1;
+    const listPrice = car.valuation === 'priceGroup' ? carBenefit.priceGroupListPrices[groupIndex] : car.listPrice;
+    
+    const monthlyBenefit = Math.min(listPrice, carBenefit.maxListPrice) * carBenefit.listPriceRate;
+    const greenReduction = Math.min(monthlyBenefit, carBenefit.monthlyReductions[car.fuelType]);
+    
+    // The employee's own payments toward the car reduce the taxable benefit
+    const monthlyTaxableBenefit = Math.max(0, monthlyBenefit - greenReduction - car.employeeParticipation);
+    
+    return {
+      listPrice,
+      monthlyBenefit,
+      greenReduction,
+      monthlyTaxableBenefit
+    };
+  }
+
+  /**
+   * Annual income tax, employee Bituach Leumi and health tax on income spread evenly over the year
+   */
+  private static getAnnualIncomeTaxes(annualIncome: number, taxPoints: number | undefined, rules: TaxRules): {
+    incomeTax: number;
+    bituachLeumi: number;
+    healthTax: number;
+  } {
+    const monthlyIncome = annualIncome / 12;
+    
+    return {
+      incomeTax: this.calculateIncomeTax(monthlyIncome, taxPoints, rules) * 12,
+      bituachLeumi: this.calculateBituachLeumi(monthlyIncome, rules).employee * 12,
+      healthTax: this.calculateHealthTax(monthlyIncome, rules) * 12
+    };
   }
 
   /**
    * Calculate pension fund contributions (employee + employer)
    */
-  static calculatePensionContributions(monthlySalary: number): {
+  static calculatePensionContributions(
+    monthlySalary: number,
+    rules: TaxRules = getTaxRules(),
+    employeeRate: number = rules.pension.employee.rate
+  ): {
     employee: number;
     employer: number;
     total: number;
   } {
-    const applicableSalary = Math.min(monthlySalary, PENSION_RATES_2024.maxMonthlySalaryForPension);
+    const applicableSalary = Math.min(monthlySalary, rules.pension.maxMonthlySalaryForPension);
     
-    const employeeContribution = applicableSalary * PENSION_RATES_2024.employee.rate;
-    const employerContribution = applicableSalary * PENSION_RATES_2024.employer.rate;
+    const employeeContribution = applicableSalary * employeeRate;
+    const employerContribution = applicableSalary * rules.pension.employer.rate;
     
     return {
       employee: employeeContribution,
@@ -63,18 +239,63 @@ export class TaxCalculator {
     };
   }
 
+  /**
+   * Calculate the monthly income tax saved on the employee's pension contribution -
+   * a credit on contributions up to the insured salary ceiling and a deduction for self-funded top-ups
+   */
+  static calculatePensionTaxBenefit(
+    monthlySalary: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    employeeRate: number = rules.pension.employee.rate
+  ): {
+    contribution: number;
+    creditableContribution: number;
+    credit: number;
+    deductibleContribution: number;
+    deductionSaving: number;
+    totalSaving: number;
+  } {
+    const { taxBenefit } = rules.pension;
+    const pensionableSalary = Math.min(monthlySalary, rules.pension.maxMonthlySalaryForPension);
+    const contribution = this.calculatePensionContributions(monthlySalary, rules, employeeRate).employee;
+    
+    // Contributions above the mandatory rate are self-funded and reduce taxable income
+    const topUp = Math.max(0, employeeRate - rules.pension.employee.rate) * pensionableSalary;
+    const deductibleContribution = Math.min(topUp, pensionableSalary * taxBenefit.deductionContributionRate);
+    const taxBeforeRelief = this.calculateIncomeTax(monthlySalary, taxPoints, rules);
+    const taxAfterDeduction = this.calculateIncomeTax(monthlySalary - deductibleContribution, taxPoints, rules);
+    const deductionSaving = taxBeforeRelief - taxAfterDeduction;
+    
+    // The credit applies to the remaining contribution, only up to the insured salary ceiling, and cannot exceed the tax due
+    const creditableContribution = Math.min(
+      contribution - deductibleContribution,
+      Math.min(monthlySalary, taxBenefit.insuredSalaryCeiling) * taxBenefit.creditContributionRate
+    );
+    const credit = Math.min(taxAfterDeduction, creditableContribution * taxBenefit.creditRate);
+    
+    return {
+      contribution,
+      creditableContribution,
+      credit,
+      deductibleContribution,
+      deductionSaving,
+      totalSaving: deductionSaving + credit
+    };
+  }
+
   /**
    * Calculate study fund (Keren Hishtalmut) contributions
    */
-  static calculateStudyFundContributions(monthlySalary: number): {
+  static calculateStudyFundContributions(monthlySalary: number, rules: TaxRules = getTaxRules()): {
     employee: number;
     employer: number;
     total: number;
   } {
-    const applicableSalary = Math.min(monthlySalary, STUDY_FUND_RATES_2024.maxMonthlySalaryForStudyFund);
+    const applicableSalary = Math.min(monthlySalary, rules.studyFund.maxMonthlySalaryForStudyFund);
     
-    const employeeContribution = applicableSalary * STUDY_FUND_RATES_2024.employee.rate;
-    const employerContribution = applicableSalary * STUDY_FUND_RATES_2024.employer.rate;
+    const employeeContribution = applicableSalary * rules.studyFund.employee.rate;
+    const employerContribution = applicableSalary * rules.studyFund.employer.rate;
     
     return {
       employee: employeeContribution,
@@ -86,28 +307,35 @@ export class TaxCalculator {
   /**
    * Calculate capital gains tax on equity
    */
-  static calculateCapitalGains(equityGains: number): number {
+  static calculateCapitalGains(equityGains: number, rules: TaxRules = getTaxRules()): number {
     if (equityGains <= 0) return 0;
     
-    // Apply exemption threshold (annual)
-    const taxableGains = Math.max(0, equityGains - CAPITAL_GAINS_TAX_2024.exemptionThreshold);
-    return taxableGains * CAPITAL_GAINS_TAX_2024.rate;
+    // Israel has no annual capital gains exemption for individuals
+    return equityGains * rules.capitalGains.rate;
   }
 
   /**
    * Calculate net salary after all deductions
    */
-  static getNetSalary(grossMonthlySalary: number, taxPoints: number = TAX_POINTS_2024.singlePersonTaxPoints): {
+  static getNetSalary(
+    grossMonthlySalary: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    pensionEmployeeRate: number = rules.pension.employee.rate,
+    residenceLocality?: string
+  ): {
     grossSalary: number;
     netSalary: number;
     totalDeductions: number;
   } {
-    const incomeTax = this.calculateIncomeTax(grossMonthlySalary, taxPoints);
-    const bituachLeumi = this.calculateBituachLeumi(grossMonthlySalary);
-    const pensionContributions = this.calculatePensionContributions(grossMonthlySalary);
-    const studyFundContributions = this.calculateStudyFundContributions(grossMonthlySalary);
+    const { incomeTax } = this.calculateSalaryIncomeTax(grossMonthlySalary, taxPoints, rules, pensionEmployeeRate, residenceLocality);
+    const bituachLeumi = this.calculateBituachLeumi(grossMonthlySalary, rules);
+    const healthTax = this.calculateHealthTax(grossMonthlySalary, rules);
+    const surtax = this.calculateSurtax(grossMonthlySalary * 12, 0, rules) / 12;
+    const pensionContributions = this.calculatePensionContributions(grossMonthlySalary, rules, pensionEmployeeRate);
+    const studyFundContributions = this.calculateStudyFundContributions(grossMonthlySalary, rules);
     
-    const totalDeductions = incomeTax + bituachLeumi + pensionContributions.employee + studyFundContributions.employee;
+    const totalDeductions = incomeTax + bituachLeumi.employee + healthTax + surtax + pensionContributions.employee + studyFundContributions.employee;
     const netSalary = grossMonthlySalary - totalDeductions;
     
     return {
@@ -117,29 +345,85 @@ export class TaxCalculator {
     };
   }
 
+  /**
+   * Solve for the gross monthly salary that yields a target net monthly salary at the package's employee pension rate
+   */
+  static getGrossFromNet(
+    targetNetMonthlySalary: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    residenceLocality?: string,
+    pensionEmployeeRate: number = rules.pension.employee.rate
+  ): {
+    grossSalary: number;
+    netSalary: number;
+    totalDeductions: number;
+  } {
+    if (targetNetMonthlySalary <= 0) {
+      return this.getNetSalary(0, taxPoints, rules, pensionEmployeeRate, residenceLocality);
+    }
+    
+    // Net salary rises monotonically with gross, so bisect between a gross that is too low and one that is high enough
+    let low = targetNetMonthlySalary;
+    let high = targetNetMonthlySalary * 2;
+    while (this.getNetSalary(high, taxPoints, rules, pensionEmployeeRate, residenceLocality).netSalary < targetNetMonthlySalary) {
+      low = high;
+      high *= 2;
+    }
+    
+    while (high - low > 0.01) {
+      const mid = (low + high) / 2;
+      if (this.getNetSalary(mid, taxPoints, rules, pensionEmployeeRate, residenceLocality).netSalary < targetNetMonthlySalary) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    
+    // Gross is quoted in whole shekels - take whichever neighbour of the solution lands closer to the target net
+    const below = this.getNetSalary(Math.floor(high), taxPoints, rules, pensionEmployeeRate, residenceLocality);
+    const above = this.getNetSalary(Math.ceil(high), taxPoints, rules, pensionEmployeeRate, residenceLocality);
+    return Math.abs(below.netSalary - targetNetMonthlySalary) <= Math.abs(above.netSalary - targetNetMonthlySalary) ? below : above;
+  }
+
   /**
    * Get comprehensive tax breakdown
    */
-  static getTaxBreakdown(grossMonthlySalary: number, taxPoints: number = TAX_POINTS_2024.singlePersonTaxPoints): TaxBreakdown {
-    const incomeTax = this.calculateIncomeTax(grossMonthlySalary, taxPoints);
-    const bituachLeumi = this.calculateBituachLeumi(grossMonthlySalary);
-    const pensionContributions = this.calculatePensionContributions(grossMonthlySalary);
-    const studyFundContributions = this.calculateStudyFundContributions(grossMonthlySalary);
+  static getTaxBreakdown(
+    grossMonthlySalary: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    pensionEmployeeRate: number = rules.pension.employee.rate,
+    residenceLocality?: string
+  ): TaxBreakdown {
+    const { incomeTax, pensionTaxCredit, residenceCredit } = this.calculateSalaryIncomeTax(grossMonthlySalary, taxPoints, rules, pensionEmployeeRate, residenceLocality);
+    const bituachLeumi = this.calculateBituachLeumi(grossMonthlySalary, rules);
+    const healthTax = this.calculateHealthTax(grossMonthlySalary, rules);
+    const surtax = this.calculateSurtax(grossMonthlySalary * 12, 0, rules) / 12;
+    const pensionContributions = this.calculatePensionContributions(grossMonthlySalary, rules, pensionEmployeeRate);
+    const studyFundContributions = this.calculateStudyFundContributions(grossMonthlySalary, rules);
     
-    const totalDeductions = incomeTax + bituachLeumi + pensionContributions.employee + studyFundContributions.employee;
+    const totalDeductions = incomeTax + bituachLeumi.employee + healthTax + surtax + pensionContributions.employee + studyFundContributions.employee;
     const netSalary = grossMonthlySalary - totalDeductions;
     
     const effectiveTaxRate = grossMonthlySalary > 0 ? totalDeductions / grossMonthlySalary : 0;
-    const marginalTaxRate = this.getMarginalTaxRate(grossMonthlySalary, taxPoints);
+    const marginalTaxRate = this.getMarginalTaxRate(grossMonthlySalary, taxPoints, rules, pensionEmployeeRate, residenceLocality);
     
     return {
       incomeTax,
-      bituachLeumi,
+      bituachLeumi: bituachLeumi.employee,
+      employerBituachLeumi: bituachLeumi.employer,
+      healthTax,
+      surtax,
       pensionContributions: pensionContributions.employee,
+      pensionTaxCredit,
+      residenceCredit,
+      imputedIncome: 0,
       studyFundContributions: studyFundContributions.employee,
       totalDeductions,
       effectiveTaxRate,
       marginalTaxRate,
+      creditPoints: taxPoints ?? rules.creditPoints.resident,
       grossSalary: grossMonthlySalary,
       netSalary: Math.max(0, netSalary)
     };
@@ -148,65 +432,130 @@ export class TaxCalculator {
   /**
    * Calculate marginal tax rate (rate on next ILS earned)
    */
-  static getMarginalTaxRate(monthlySalary: number, taxPoints: number = TAX_POINTS_2024.singlePersonTaxPoints): number {
-    const taxPointCredit = taxPoints * TAX_POINTS_2024.taxPointValue;
-    const taxableIncome = Math.max(0, monthlySalary - taxPointCredit);
+  static getMarginalTaxRate(
+    monthlySalary: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    pensionEmployeeRate: number = rules.pension.employee.rate,
+    residenceLocality?: string
+  ): number {
+    // While credit points still cover the whole income tax, the next ILS adds no income tax
+    const creditsExhausted = this.calculateIncomeTax(monthlySalary, taxPoints, rules) > 0;
+    
+    // Surtax applies once annual income passes the threshold
+    const surtaxRate = monthlySalary * 12 >= rules.surtax.annualThreshold ? rules.surtax.rate : 0;
     
     // Find which bracket the salary falls into
-    for (const bracket of ISRAELI_TAX_BRACKETS_2024.brackets) {
-      if (taxableIncome >= bracket.min && taxableIncome < bracket.max) {
-        // Add Bituach Leumi if under ceiling
-        const bituachLeumiRate = monthlySalary < BITUACH_LEUMI_2024.monthlyCeiling ? BITUACH_LEUMI_2024.rate : 0;
+    for (const bracket of rules.incomeTaxBrackets) {
+      if (monthlySalary >= bracket.min && monthlySalary < bracket.max) {
+        // Add Bituach Leumi and health tax at the tier the salary falls into
+        const bituachLeumiRate = this.getTwoTierMarginalRate(monthlySalary, rules.bituachLeumi, rules.bituachLeumi.employee);
+        const healthTaxRate = this.getTwoTierMarginalRate(monthlySalary, rules.healthTax, rules.healthTax);
         
         // Add pension contribution rates if under ceiling
-        const pensionRate = monthlySalary < PENSION_RATES_2024.maxMonthlySalaryForPension ? PENSION_RATES_2024.employee.rate : 0;
+        const pensionRate = monthlySalary < rules.pension.maxMonthlySalaryForPension ? pensionEmployeeRate : 0;
+        
+        // Below the insured salary ceiling part of the next ILS of contribution comes back as a credit
+        const { taxBenefit } = rules.pension;
+        const pensionCreditRate = creditsExhausted && monthlySalary < taxBenefit.insuredSalaryCeiling
+          ? Math.min(pensionEmployeeRate, taxBenefit.creditContributionRate) * taxBenefit.creditRate
+          : 0;
         
         // Add study fund rates if under ceiling
-        const studyFundRate = monthlySalary < STUDY_FUND_RATES_2024.maxMonthlySalaryForStudyFund ? STUDY_FUND_RATES_2024.employee.rate : 0;
+        const studyFundRate = monthlySalary < rules.studyFund.maxMonthlySalaryForStudyFund ? rules.studyFund.employee.rate : 0;
         
-        return bracket.rate + bituachLeumiRate + pensionRate + studyFundRate;
+        // Below the locality's ceiling the residence credit returns its rate of the next ILS
+        const locality = this.getResidenceLocality(residenceLocality, rules);
+        const residenceRate = creditsExhausted && locality && monthlySalary * 12 < locality.annualIncomeCeiling ? locality.rate : 0;
+        
+        const incomeTaxRate = creditsExhausted ? bracket.rate : 0;
+        
+        return incomeTaxRate + bituachLeumiRate + healthTaxRate + surtaxRate + pensionRate + studyFundRate - pensionCreditRate - residenceRate;
       }
     }
     
     // If above all brackets, return highest rate
-    const highestBracket = ISRAELI_TAX_BRACKETS_2024.brackets[ISRAELI_TAX_BRACKETS_2024.brackets.length - 1];
-    return highestBracket.rate + BITUACH_LEUMI_2024.rate + PENSION_RATES_2024.employee.rate + STUDY_FUND_RATES_2024.employee.rate;
+    const highestBracket = rules.incomeTaxBrackets[rules.incomeTaxBrackets.length - 1];
+    return highestBracket.rate + surtaxRate + pensionEmployeeRate + rules.studyFund.employee.rate;
   }
 
   /**
-   * Calculate annual tax from monthly salary
+   * Rate of a two-tier contribution on the next ILS earned
    */
-  static getAnnualTaxBreakdown(monthlySalary: number, taxPoints: number = TAX_POINTS_2024.singlePersonTaxPoints): TaxBreakdown {
-    const monthlyBreakdown = this.getTaxBreakdown(monthlySalary, taxPoints);
+  private static getTwoTierMarginalRate(
+    monthlySalary: number,
+    tiers: TwoTierSchedule,
+    rates: TwoTierRates
+  ): number {
+    if (monthlySalary >= tiers.monthlyCeiling) return 0;
+    return monthlySalary < tiers.reducedRateThreshold ? rates.reducedRate : rates.fullRate;
+  }
+
+  /**
+   * Calculate annual tax from the monthly pensionable salary, with pay outside the pension base (overtime, bonus, recuperation pay,
+   * taxable holiday gifts) stacked on top at the marginal rates and surtax on the full annual income including equity, capital and imputed income.
+   * Tax-exempt pay such as holiday gifts below the threshold only adds to gross and net salary
+   */
+  static getAnnualTaxBreakdown(
+    monthlySalary: number,
+    taxPoints?: number,
+    rules: TaxRules = getTaxRules(),
+    otherIncome: { ordinaryIncome: number; capitalIncome: number; imputedIncome?: number; stackedSalary?: number; exemptSalary?: number } = { ordinaryIncome: 0, capitalIncome: 0 },
+    pensionEmployeeRate: number = rules.pension.employee.rate,
+    residenceLocality?: string
+  ): TaxBreakdown {
+    const monthlyBreakdown = this.getTaxBreakdown(monthlySalary, taxPoints, rules, pensionEmployeeRate, residenceLocality);
+    const imputedIncome = otherIncome.imputedIncome || 0;
+    const stackedSalary = otherIncome.stackedSalary || 0;
+    const exemptSalary = otherIncome.exemptSalary || 0;
+    const stackedTax = this.calculateStackedTax(monthlySalary * 12, stackedSalary, taxPoints, true, rules);
+    const imputedTax = this.calculateStackedTax(monthlySalary * 12 + stackedSalary, imputedIncome, taxPoints, true, rules);
+    const salarySurtax = this.calculateSurtax(monthlySalary * 12 + stackedSalary, 0, rules);
+    const surtax = this.calculateSurtax(monthlySalary * 12 + stackedSalary + otherIncome.ordinaryIncome + imputedIncome, otherIncome.capitalIncome, rules);
+    
+    // Net salary keeps only the salary's own taxes; the tax on imputed income is charged against the benefits and perks it comes from,
+    // and the rest of the surtax is attributed to the other income
+    const grossSalary = monthlyBreakdown.grossSalary * 12 + stackedSalary + exemptSalary;
+    const salaryDeductions = (monthlyBreakdown.totalDeductions - monthlyBreakdown.surtax) * 12 + stackedTax.total + salarySurtax;
     
     return {
-      incomeTax: monthlyBreakdown.incomeTax * 12,
-      bituachLeumi: monthlyBreakdown.bituachLeumi * 12,
+      incomeTax: monthlyBreakdown.incomeTax * 12 + stackedTax.incomeTax + imputedTax.incomeTax,
+      bituachLeumi: monthlyBreakdown.bituachLeumi * 12 + stackedTax.bituachLeumi + imputedTax.bituachLeumi,
+      employerBituachLeumi: this.calculateBituachLeumi(monthlySalary + stackedSalary / 12, rules).employer * 12,
+      healthTax: monthlyBreakdown.healthTax * 12 + stackedTax.healthTax + imputedTax.healthTax,
+      surtax,
       pensionContributions: monthlyBreakdown.pensionContributions * 12,
+      pensionTaxCredit: monthlyBreakdown.pensionTaxCredit * 12,
+      residenceCredit: monthlyBreakdown.residenceCredit * 12,
+      imputedIncome,
       studyFundContributions: monthlyBreakdown.studyFundContributions * 12,
-      totalDeductions: monthlyBreakdown.totalDeductions * 12,
-      effectiveTaxRate: monthlyBreakdown.effectiveTaxRate,
+      totalDeductions: salaryDeductions + imputedTax.total + surtax - salarySurtax,
+      effectiveTaxRate: grossSalary > 0 ? salaryDeductions / grossSalary : 0,
       marginalTaxRate: monthlyBreakdown.marginalTaxRate,
-      grossSalary: monthlyBreakdown.grossSalary * 12,
-      netSalary: monthlyBreakdown.netSalary * 12
+      creditPoints: monthlyBreakdown.creditPoints,
+      grossSalary,
+      netSalary: monthlyBreakdown.netSalary * 12 + stackedSalary + exemptSalary - stackedTax.total - (salarySurtax - monthlyBreakdown.surtax * 12)
     };
   }
 
   /**
    * Calculate employer benefits value (what employer pays but employee doesn't see directly)
    */
-  static calculateEmployerBenefitsValue(monthlySalary: number): {
+  static calculateEmployerBenefitsValue(monthlySalary: number, rules: TaxRules = getTaxRules()): {
     pensionContribution: number;
     studyFundContribution: number;
+    bituachLeumiContribution: number;
     totalEmployerCost: number;
   } {
-    const pensionContributions = this.calculatePensionContributions(monthlySalary);
-    const studyFundContributions = this.calculateStudyFundContributions(monthlySalary);
+    const pensionContributions = this.calculatePensionContributions(monthlySalary, rules);
+    const studyFundContributions = this.calculateStudyFundContributions(monthlySalary, rules);
+    const bituachLeumi = this.calculateBituachLeumi(monthlySalary, rules);
     
     return {
       pensionContribution: pensionContributions.employer,
       studyFundContribution: studyFundContributions.employer,
-      totalEmployerCost: pensionContributions.employer + studyFundContributions.employer
+      bituachLeumiContribution: bituachLeumi.employer,
+      totalEmployerCost: pensionContributions.employer + studyFundContributions.employer + bituachLeumi.employer
     };
   }
 } 
\ No newline at end of file